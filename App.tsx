@@ -1,57 +1,437 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { SearchBar } from './components/SearchBar';
 import { ImageCard } from './components/ImageCard';
-import { parseXhsLink, fetchBlobWithRetry } from './services/xhsService';
-import { generateSmartNames } from './services/geminiService';
-import { XhsPost, XhsImage, ProcessingState } from './types';
-import { Download, Sparkles, CheckSquare, Image as ImageIcon, Settings, X, Loader2, RefreshCw, AlertTriangle } from 'lucide-react';
+import { parseXhsLink, parseXhsProfile, resolveShareLink, fetchBlobWithRetry, xhsClient } from './services/xhsService';
+import { fetchPostsFiles } from './lib/pipeline';
+import { inspectDownload, isDegradedDownload } from './services/mediaInspector';
+import { generateSmartNames } from './services/namingService';
+import { NamingConfig, getNamingProvider, isNamingConfigured } from './services/namingProviders';
+import { AppSettings, loadSettings, persistSettings, exportSettings, parseSettingsFile } from './services/settingsStore';
+import { EncryptedSecret } from './services/secretBox';
+import { ImageExportOptions, processImageForExport } from './services/imageExport';
+import { buildPostsZip, ZipGroup } from './services/zipService';
+import { ConflictPolicy, isDirectoryPickerAvailable, getSavedDirectory, pickDirectory, forgetDirectory, ensureWritePermission, writeFileToDirectory } from './services/directoryStore';
+import { DirectorySettings } from './components/DirectorySettings';
+import { LaunchRequest, readLaunchRequest, clearLaunchParams, resolveSelection, writeViewHash } from './services/launchParams';
+import { BatchQueue } from './components/BatchQueue';
+import { ProxySettings } from './components/ProxySettings';
+import { proxyPool, parseCustomProxies } from './services/proxyPool';
+import { describeXhsError } from './services/xhsErrors';
+import { saveHistoryPost, getHistoryEntry, recordDownloads, getDownloadRecords, getHashedDownloads } from './services/historyStore';
+import { computePerceptualHash, findDuplicates } from './services/perceptualHash';
+import { HistoryPanel } from './components/HistoryPanel';
+import { FilenameTemplateSettings } from './components/FilenameTemplateSettings';
+import { PostInfoCard } from './components/PostInfoCard';
+import { NamingProviderSettings } from './components/NamingProviderSettings';
+import { ApiKeyVault } from './components/ApiKeyVault';
+import { ImageExportSettings } from './components/ImageExportSettings';
+import { ImageFilterBar } from './components/ImageFilterBar';
+import { BulkRenameBar } from './components/BulkRenameBar';
+import { ProfileGallery } from './components/ProfileGallery';
+import { ImageFilter, EMPTY_IMAGE_FILTER, matchesImageFilter, collectImageTags } from './services/imageFilter';
+import { buildMetadataFiles } from './services/metadataExport';
+import { DownloadManager } from './services/downloadManager';
+import { renderFilename, sanitizeFilenamePart, findNameCollisions, buildPostFolderPath } from './services/filenameTemplate';
+import { XhsPost, XhsImage, XhsProfile, ProcessingState, DownloadMode, QueueItem, HistoryEntry, DownloadRecord, ImageDownloadState, DownloadInfo, PerceptualHash } from './types';
+import { Download, Sparkles, CheckSquare, Image as ImageIcon, Settings, X, Loader2, RefreshCw, AlertTriangle, FileArchive, Files, FolderOpen, History, Pause, Play, Square, Upload } from 'lucide-react';
 
 // Use environment variable for API Key if available
+// (`npm run build:public` never inlines one, so public bundles stay key-free)
 const DEMO_API_KEY = process.env.API_KEY || ''; 
 
-// Helper to determine extension from blob type
-const getExtFromMime = (mime: string): string => {
-  switch (mime) {
-    case 'image/png': return 'png';
-    case 'image/webp': return 'webp';
-    case 'image/gif': return 'gif';
-    case 'image/jpeg': 
-    default: 
-      return 'jpg';
-  }
+// Triggers a browser download for a blob via a temporary anchor element
+const saveBlob = (blob: Blob, fileName: string) => {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  window.URL.revokeObjectURL(url);
 };
 
 const App: React.FC = () => {
-  const [post, setPost] = useState<XhsPost | null>(null);
+  const [queue, setQueue] = useState<QueueItem[]>([]);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
-  const [failedIds, setFailedIds] = useState<Set<string>>(new Set()); // Track failed downloads
+  const [downloadStates, setDownloadStates] = useState<Record<string, ImageDownloadState>>({}); // Per-image download progress
   const [processing, setProcessing] = useState<ProcessingState>({ status: 'idle' });
-  const [apiKey, setApiKey] = useState(DEMO_API_KEY);
+  const [initialSettings] = useState(loadSettings); // Read from localStorage once
+  // The build-time key is a Gemini key; no other provider's endpoint may receive it
+  const [namingConfig, setNamingConfig] = useState<NamingConfig>(() => ({
+    ...initialSettings.naming,
+    apiKey: initialSettings.naming.provider === 'gemini' ? DEMO_API_KEY : '',
+  }));
+  const [encryptedApiKey, setEncryptedApiKey] = useState<EncryptedSecret | null>(initialSettings.encryptedApiKey);
+  const [vaultKey, setVaultKey] = useState<string | null>(null); // Plaintext of encryptedApiKey once unlocked or saved
   const [showApiKeyModal, setShowApiKeyModal] = useState(false);
+  const [downloadMode, setDownloadMode] = useState<DownloadMode>(initialSettings.downloadMode);
+  const [conflictPolicy, setConflictPolicy] = useState<ConflictPolicy>(initialSettings.conflictPolicy);
+  const [directory, setDirectory] = useState<FileSystemDirectoryHandle | null>(null); // Target of folder mode
+  const [customProxyText, setCustomProxyText] = useState(initialSettings.customProxyText);
+  const [filenameTemplate, setFilenameTemplate] = useState(initialSettings.filenameTemplate);
+  const [exportMetadata, setExportMetadata] = useState(initialSettings.exportMetadata);
+  const [skipDuplicates, setSkipDuplicates] = useState(initialSettings.skipDuplicates);
+  const [downloadConcurrency, setDownloadConcurrency] = useState(initialSettings.downloadConcurrency);
+  const [imageExport, setImageExport] = useState<ImageExportOptions>(initialSettings.imageExport);
+  const [settingsError, setSettingsError] = useState<string | null>(null);
+  const settingsFileRef = useRef<HTMLInputElement>(null);
+  const downloadManagerRef = useRef<DownloadManager | null>(null);
   const [previewImage, setPreviewImage] = useState<string | null>(null);
+  const [previewVideo, setPreviewVideo] = useState<string | null>(null); // Video / Live Photo motion clip
   const [previewError, setPreviewError] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [savedBefore, setSavedBefore] = useState<Record<string, number>>({}); // Post id -> first saved time, for re-pasted notes
+  const [downloadRecords, setDownloadRecords] = useState<Map<string, DownloadRecord>>(new Map());
+  const [imageHashes, setImageHashes] = useState<Map<string, PerceptualHash>>(new Map()); // Image id -> perceptual hash
+  const [hashedDownloads, setHashedDownloads] = useState<DownloadRecord[]>([]); // Earlier downloads, for near-duplicate checks
+  const hashedIdsRef = useRef<Set<string>>(new Set()); // Images hashed or waiting to be
+  const hashQueueRef = useRef<XhsImage[]>([]); // Preview images still to hash, oldest first
+  const hashingRef = useRef(false);
+  const [imageFilter, setImageFilter] = useState<ImageFilter>(EMPTY_IMAGE_FILTER);
+  const [profile, setProfile] = useState<XhsProfile | null>(null); // Author whose note list is open
+  // Pipeline requested by launch parameters, share target or a bookmarked hash (read once)
+  const [launch] = useState<LaunchRequest | null>(() => readLaunchRequest(window.location.search, window.location.hash));
+  const launchStartedRef = useRef(false);
+  const [launchStage, setLaunchStage] = useState<'parse' | 'select' | 'rename' | 'download' | 'done'>(launch ? 'parse' : 'done');
 
-  // Check if Gemini is ready
-  const isGeminiReady = !!apiKey;
+  // Check if the selected naming provider has what it needs
+  const isNamingReady = isNamingConfigured(namingConfig);
 
-  const handleSearch = async (url: string) => {
+  // Everything but the plaintext key, which only ever lives in memory
+  const currentSettings = (): AppSettings => {
+    const { apiKey: _apiKey, ...naming } = namingConfig;
+    return { naming, encryptedApiKey, filenameTemplate, exportMetadata, skipDuplicates, downloadConcurrency, downloadMode, conflictPolicy, customProxyText, imageExport };
+  };
+
+  // Picking happens inside the click so the browser allows the dialog
+  const chooseDirectory = async (): Promise<FileSystemDirectoryHandle | null> => {
+    try {
+      const handle = await pickDirectory();
+      if (handle) setDirectory(handle);
+      return handle;
+    } catch (err) {
+      console.warn('Failed to pick a folder', err);
+      return null;
+    }
+  };
+
+  const clearDirectory = () => {
+    setDirectory(null);
+    forgetDirectory().catch(err => console.warn('Failed to forget folder', err));
+  };
+
+  // Cycles files -> ZIP -> folder (where the browser supports it) -> files
+  const toggleDownloadMode = async () => {
+    let next: DownloadMode = downloadMode === 'files' ? 'zip' : downloadMode === 'zip' ? 'folder' : 'files';
+    if (next === 'folder' && !isDirectoryPickerAvailable()) next = 'files';
+    if (next === 'folder' && !directory && !(await chooseDirectory())) next = 'files';
+    setDownloadMode(next);
+  };
+
+  const handleExportSettings = () => {
+    saveBlob(exportSettings(currentSettings()), 'redsaver-settings.json');
+  };
+
+  const handleImportSettings = async (file: File) => {
+    setSettingsError(null);
+    try {
+      const settings = parseSettingsFile(await file.text());
+      // Like switching providers by hand: a file must not redirect the key to another endpoint
+      setNamingConfig(prev => ({
+        ...settings.naming,
+        apiKey: settings.naming.provider === prev.provider && settings.naming.baseUrl === prev.baseUrl ? prev.apiKey : '',
+      }));
+      setEncryptedApiKey(settings.encryptedApiKey);
+      setVaultKey(null);
+      setFilenameTemplate(settings.filenameTemplate);
+      setExportMetadata(settings.exportMetadata);
+      setSkipDuplicates(settings.skipDuplicates);
+      setDownloadConcurrency(settings.downloadConcurrency);
+      setDownloadMode(settings.downloadMode);
+      setConflictPolicy(settings.conflictPolicy);
+      setCustomProxyText(settings.customProxyText);
+      setImageExport(settings.imageExport);
+    } catch (err: any) {
+      setSettingsError(err?.message || String(err));
+    }
+  };
+
+  // Settings take effect and are saved as soon as they change; there is nothing to confirm
+  useEffect(() => {
+    persistSettings(currentSettings());
+  }, [namingConfig, encryptedApiKey, filenameTemplate, exportMetadata, skipDuplicates, downloadConcurrency, downloadMode, conflictPolicy, customProxyText, imageExport]);
+
+  useEffect(() => {
+    proxyPool.setCustomProxies(parseCustomProxies(customProxyText));
+  }, [customProxyText]);
+
+  // Hashes of everything downloaded before, from any note
+  useEffect(() => {
+    getHashedDownloads()
+      .then(setHashedDownloads)
+      .catch(err => console.warn('History unavailable', err));
+  }, []);
+
+  // Folder chosen in an earlier session (permission is asked again on first download)
+  useEffect(() => {
+    if (!isDirectoryPickerAvailable()) return;
+    getSavedDirectory()
+      .then(setDirectory)
+      .catch(err => console.warn('Failed to load saved folder', err));
+  }, []);
+
+  // Folder mode without API support or a folder (e.g. imported settings) falls back to ZIP
+  const effectiveDownloadMode: DownloadMode =
+    downloadMode === 'folder' && !(isDirectoryPickerAvailable() && directory) ? 'zip' : downloadMode;
+
+  // Failed downloads are kept in downloadStates so they can be retried
+  const failedIds = new Set(Object.keys(downloadStates).filter(id => downloadStates[id].status === 'failed'));
+
+  // Every successfully parsed post, in queue order
+  const posts = queue.filter(item => item.status === 'ready' && item.post).map(item => item.post!);
+  const allImages = posts.flatMap(p => p.images);
+  const namingFailedCount = allImages.filter(img => img.namingError).length;
+  const hasAnalysis = allImages.some(img => img.analysis);
+  // The filter bar only shows once images are analyzed, so never filter without it
+  const activeFilter = hasAnalysis ? imageFilter : EMPTY_IMAGE_FILTER;
+  const visibleImages = allImages.filter(img => matchesImageFilter(img, activeFilter));
+  const allVisibleSelected = visibleImages.length > 0 && visibleImages.every(img => selectedIds.has(img.id));
+
+  // Selected images that would download under the same filename (the extension is guessed from the kind)
+  const collidingIds = findNameCollisions(posts.flatMap(post =>
+    post.images
+      .map((image, index) => ({ image, index }))
+      .filter(({ image }) => selectedIds.has(image.id))
+      .map(({ image, index }) => ({
+        id: image.id,
+        fileName: renderFilename(filenameTemplate, { post, image, index, ext: image.kind === 'video' ? 'mp4' : 'jpg' }),
+      }))
+  ));
+
+  // Near-duplicates within each note and against earlier downloads. Memoized:
+  // the saved list grows with every download and renders happen per progress tick.
+  const duplicates = useMemo(
+    () => findDuplicates(posts, imageHashes, hashedDownloads),
+    [queue, imageHashes, hashedDownloads]
+  );
+
+  const updateQueueItem = (url: string, patch: Partial<QueueItem>) => {
+    setQueue(prev => prev.map(item => (item.url === url ? { ...item, ...patch } : item)));
+  };
+
+  const updatePost = (next: XhsPost) => {
+    setQueue(prev => prev.map(item => (item.post?.id === next.id ? { ...item, post: next } : item)));
+    saveHistoryPost(next).catch(err => console.warn('Failed to update history', err));
+  };
+
+  // Manual names replace AI ones; an empty name falls back to the default naming
+  const renameImage = (post: XhsPost, imageId: string, rawName: string) => {
+    const name = sanitizeFilenamePart(rawName);
+    updatePost({
+      ...post,
+      images: post.images.map(img =>
+        img.id === imageId ? { ...img, aiName: name || undefined, namingError: undefined } : img
+      ),
+    });
+  };
+
+  const loadDownloadRecords = async (post: XhsPost) => {
+    const records = await getDownloadRecords(post.images.map(img => img.id));
+    setDownloadRecords(prev => new Map([...prev, ...records]));
+  };
+
+  // Saves a freshly parsed post to history, flagging it if it was saved before
+  const rememberPost = async (post: XhsPost) => {
+    try {
+      const existing = await getHistoryEntry(post.id);
+      if (existing) {
+        setSavedBefore(prev => ({ ...prev, [post.id]: existing.savedAt }));
+      }
+      await saveHistoryPost(post);
+      await loadDownloadRecords(post);
+    } catch (err) {
+      // History is a convenience; private mode or blocked storage must not break parsing
+      console.warn('History unavailable', err);
+    }
+  };
+
+  // Hashes preview images in the background, one at a time across every open
+  // note, so duplicates show before downloading without outpacing processQueue
+  const drainHashQueue = async () => {
+    if (hashingRef.current) return;
+    hashingRef.current = true;
+    while (hashQueueRef.current.length > 0) {
+      const img = hashQueueRef.current.shift()!;
+      try {
+        const hash = await computePerceptualHash(await fetchBlobWithRetry(img.previewUrl));
+        setImageHashes(prev => new Map(prev).set(img.id, hash));
+      } catch (err) {
+        // Left for the download to hash from the full image
+        hashedIdsRef.current.delete(img.id);
+        console.warn(`Could not hash image ${img.id}`, err);
+      }
+    }
+    hashingRef.current = false;
+  };
+
+  const queueImageHashes = (post: XhsPost) => {
+    const pending = post.images.filter(img => img.kind !== 'video' && !hashedIdsRef.current.has(img.id));
+    pending.forEach(img => hashedIdsRef.current.add(img.id));
+    hashQueueRef.current.push(...pending);
+    drainHashQueue();
+  };
+
+  // Drops images of notes that are no longer open; the one being hashed finishes
+  const clearImageHashQueue = () => {
+    hashQueueRef.current.forEach(img => hashedIdsRef.current.delete(img.id));
+    hashQueueRef.current = [];
+  };
+
+  const openFromHistory = (entry: HistoryEntry) => {
+    setShowHistory(false);
+    clearImageHashQueue();
+    setQueue([{ url: entry.sourceUrl, status: 'ready', post: entry.post }]);
+    setSelectedIds(new Set(entry.post.images.map(img => img.id)));
+    setDownloadStates({});
+    loadDownloadRecords(entry.post).catch(err => console.warn('History unavailable', err));
+    queueImageHashes(entry.post);
+  };
+
+  // Profile links open the author's note list instead of a single note
+  const handleProfileSearch = async (url: string) => {
+    setProcessing({ status: 'analyzing' });
+    try {
+      setProfile(await parseXhsProfile(url));
+      setProcessing({ status: 'idle' });
+    } catch (error) {
+      setProcessing({ status: 'error', message: describeXhsError(error) });
+      setTimeout(() => setProcessing({ status: 'idle' }), 3000);
+    }
+  };
+
+  const handleSearch = async (text: string) => {
     setProcessing({ status: 'analyzing' });
-    setPost(null);
+    let url: string;
+    try {
+      // Short links only reveal whether they point at a note or a profile once expanded
+      const resolved = await resolveShareLink(text);
+      if (resolved.kind === 'profile') {
+        handleProfileSearch(resolved.url);
+        return;
+      }
+      url = resolved.url;
+    } catch (error) {
+      setProcessing({ status: 'error', message: describeXhsError(error) });
+      setTimeout(() => setProcessing({ status: 'idle' }), 3000);
+      return;
+    }
+    clearImageHashQueue();
+    setQueue([{ url, status: 'parsing' }]);
     setSelectedIds(new Set());
-    setFailedIds(new Set());
+    setDownloadStates({});
 
     try {
       const data = await parseXhsLink(url);
-      setPost(data);
+      setQueue([{ url, status: 'ready', post: data }]);
       // Select all by default
       setSelectedIds(new Set(data.images.map(img => img.id)));
+      rememberPost(data);
+      queueImageHashes(data);
       setProcessing({ status: 'idle' });
-    } catch (error: any) {
-      setProcessing({ status: 'error', message: error.message || '解析失败，请检查链接是否正确' });
+    } catch (error) {
+      setQueue([]);
+      setProcessing({ status: 'error', message: describeXhsError(error) });
       setTimeout(() => setProcessing({ status: 'idle' }), 3000);
     }
   };
 
+  // Parses queued links one after another so public proxies are not hammered
+  const processQueue = async (urls: string[]) => {
+    if (urls.length === 0) return;
+    setProcessing({ status: 'analyzing', progress: 0, total: urls.length });
+
+    // Different links (short link, share text, full URL) can resolve to the same note;
+    // only the first one is kept so post and image ids stay unique across the queue
+    const parsedIds = new Set(posts.map(post => post.id));
+    let failCount = 0;
+    let duplicateCount = 0;
+    for (let i = 0; i < urls.length; i++) {
+      const url = urls[i];
+      updateQueueItem(url, { status: 'parsing', error: undefined });
+      try {
+        const data = await parseXhsLink(url);
+        if (parsedIds.has(data.id)) {
+          duplicateCount++;
+          setQueue(prev => prev.filter(item => item.url !== url));
+        } else {
+          parsedIds.add(data.id);
+          updateQueueItem(url, { status: 'ready', post: data });
+          rememberPost(data);
+          queueImageHashes(data);
+          setSelectedIds(prev => {
+            const next = new Set(prev);
+            data.images.forEach(img => next.add(img.id));
+            return next;
+          });
+        }
+      } catch (error) {
+        failCount++;
+        updateQueueItem(url, { status: 'failed', error: describeXhsError(error, '解析失败') });
+      }
+      setProcessing(prev => ({ ...prev, progress: i + 1 }));
+
+      if (i < urls.length - 1) {
+        await new Promise(r => setTimeout(r, 1000));
+      }
+    }
+
+    const duplicateNote = duplicateCount > 0 ? `，跳过 ${duplicateCount} 条重复笔记` : '';
+    if (failCount > 0) {
+      setProcessing({ status: 'error', message: `队列解析完成，失败 ${failCount} 条${duplicateNote}` });
+      setTimeout(() => setProcessing({ status: 'idle' }), 3000);
+    } else if (duplicateCount > 0) {
+      setProcessing({ status: 'success', message: `队列解析完成${duplicateNote}` });
+      setTimeout(() => setProcessing({ status: 'idle' }), 2500);
+    } else {
+      setProcessing({ status: 'idle' });
+    }
+  };
+
+  const handleBatchSearch = (urls: string[]) => {
+    const known = new Set(queue.map(item => item.url));
+    const fresh = urls.filter(url => !known.has(url));
+    if (fresh.length === 0) return;
+
+    setQueue(prev => [...prev, ...fresh.map(url => ({ url, status: 'queued' as const }))]);
+    processQueue(fresh);
+  };
+
+  const removeFromQueue = (url: string) => {
+    const removed = queue.find(item => item.url === url)?.post;
+    setQueue(prev => prev.filter(item => item.url !== url));
+    if (removed) {
+      const removedIds = removed.images.map(img => img.id);
+      setSelectedIds(prev => {
+        const next = new Set(prev);
+        removedIds.forEach(id => next.delete(id));
+        return next;
+      });
+      setDownloadStates(prev => {
+        const next = { ...prev };
+        removedIds.forEach(id => delete next[id]);
+        return next;
+      });
+    }
+  };
+
+  const clearQueue = () => {
+    clearImageHashQueue();
+    setQueue([]);
+    setSelectedIds(new Set());
+    setDownloadStates({});
+  };
+
   const toggleSelection = (id: string) => {
     const newSet = new Set(selectedIds);
     if (newSet.has(id)) {
@@ -62,119 +442,294 @@ const App: React.FC = () => {
     setSelectedIds(newSet);
   };
 
+  // Acts on the images the tag filter leaves visible (all of them when unfiltered)
   const toggleSelectAll = () => {
-    if (!post) return;
-    if (selectedIds.size === post.images.length) {
-      setSelectedIds(new Set());
+    if (posts.length === 0) return;
+    const next = new Set(selectedIds);
+    if (allVisibleSelected) {
+      visibleImages.forEach(img => next.delete(img.id));
     } else {
-      setSelectedIds(new Set(post.images.map(img => img.id)));
+      visibleImages.forEach(img => next.add(img.id));
     }
+    setSelectedIds(next);
   };
 
-  const handleSmartRename = async () => {
-    if (!post || !isGeminiReady) {
-      if (!isGeminiReady) setShowApiKeyModal(true);
+  const handleSmartRename = async (retryFailedOnly = false) => {
+    if (posts.length === 0 || !isNamingReady) {
+      if (!isNamingReady) setShowApiKeyModal(true);
       return;
     }
 
     setProcessing({ status: 'renaming' });
     try {
-      const updatedImages = await generateSmartNames(post.images, apiKey);
-      setPost({ ...post, images: updatedImages });
-      setProcessing({ status: 'idle' });
+      let failed = 0;
+      for (const post of posts) {
+        if (retryFailedOnly && !post.images.some(img => img.namingError)) continue;
+        const updatedImages = await generateSmartNames(post, namingConfig, { onlyFailed: retryFailedOnly });
+        failed += updatedImages.filter(img => img.namingError).length;
+        updatePost({ ...post, images: updatedImages });
+      }
+      if (failed > 0) {
+        setProcessing({ status: 'error', message: `${failed} 张图片命名失败，可点击重试` });
+        setTimeout(() => setProcessing({ status: 'idle' }), 3000);
+      } else {
+        setProcessing({ status: 'idle' });
+      }
     } catch (error) {
-      setProcessing({ status: 'error', message: 'AI 命名失败，请检查 API Key' });
+      setProcessing({ status: 'error', message: 'AI 命名失败，请检查命名服务设置' });
       setTimeout(() => setProcessing({ status: 'idle' }), 3000);
     }
   };
 
-  const handleDownload = async (retryFailedOnly = false) => {
-    if (!post) return;
+  const togglePause = () => {
+    const manager = downloadManagerRef.current;
+    if (!manager) return;
+    if (manager.isPaused()) manager.resume();
+    else manager.pause();
+    setProcessing(prev => ({ ...prev, paused: manager.isPaused() }));
+  };
+
+  const cancelDownload = () => {
+    downloadManagerRef.current?.cancel();
+  };
+
+  const handleExportMetadata = (post: XhsPost, format: 'json' | 'md') => {
+    const file = buildMetadataFiles(post).find(f => f.fileName.endsWith(`.${format}`));
+    if (file) saveBlob(file.blob, file.fileName);
+  };
+
+  const handleDownload = async (retryFailedOnly = false, modeOverride?: DownloadMode) => {
+    if (posts.length === 0) return;
     
-    const targetIds = retryFailedOnly ? failedIds : selectedIds;
+    let targetIds = retryFailedOnly ? failedIds : selectedIds;
+    if (!retryFailedOnly && skipDuplicates) {
+      const kept = new Set(Array.from(targetIds).filter(id => !duplicates.has(id)));
+      if (kept.size < targetIds.size) {
+        setSelectedIds(kept);
+        targetIds = kept;
+      }
+    }
     if (targetIds.size === 0) return;
 
+    const mode = modeOverride ?? effectiveDownloadMode;
+    // Asked first, while the click still counts as a user gesture
+    let permitted = true;
+    try {
+      if (mode === 'folder') permitted = await ensureWritePermission(directory!);
+    } catch (err) {
+      // Without a user gesture the browser refuses to prompt (SecurityError)
+      console.warn('Folder permission request failed', err);
+      permitted = false;
+    }
+    if (!permitted) {
+      setProcessing({ status: 'error', message: '未获得文件夹写入权限' });
+      setTimeout(() => setProcessing({ status: 'idle' }), 3000);
+      return;
+    }
+
+    // Warn before fetching images that were already downloaded (from this or another note)
+    const alreadyDownloaded = Array.from(targetIds).filter(id => downloadRecords.has(id)).length;
+    if (!retryFailedOnly && alreadyDownloaded > 0 &&
+        !window.confirm(`有 ${alreadyDownloaded} 张图片之前已下载过，是否仍要下载？`)) {
+      return;
+    }
+
     setProcessing({ status: 'downloading', progress: 0, total: targetIds.size });
-    
-    // Clear failed IDs if we are retrying them (we will re-add if they fail again)
-    if (retryFailedOnly) {
-        setFailedIds(new Set());
-    } else {
-        // If normal download, clear previous failures for selected items
-        setFailedIds(prev => {
-            const next = new Set(prev);
-            targetIds.forEach(id => next.delete(id));
-            return next;
+
+    const zipGroups = new Map<string, ZipGroup>();
+    const downloaded: { postId: string; imageId: string }[] = [];
+    const inspected = new Map<string, DownloadInfo>(); // What each fetched image really was, before export processing
+    const downloadInfos = new Map<string, DownloadInfo>(); // The same, for images whose files were delivered
+    const downloadHashes = new Map<string, PerceptualHash>(imageHashes); // Completed with images the background pass couldn't hash
+    let skippedFiles = 0; // Folder mode: files left alone because they already existed
+    const saveToFolder = async (post: XhsPost, file: { fileName: string; blob: Blob }) => {
+      const status = await writeFileToDirectory(directory!, buildPostFolderPath(post), file.fileName, file.blob, conflictPolicy);
+      if (status === 'skipped') skippedFiles++;
+    };
+
+    const results = await fetchPostsFiles(xhsClient, posts, {
+      filenameTemplate,
+      concurrency: downloadConcurrency,
+      imageIds: targetIds,
+      onStart: (manager) => { downloadManagerRef.current = manager; },
+      onUpdate: (id, state) => {
+        setDownloadStates(prev => {
+          const next = { ...prev };
+          // Cancelled images go back to their plain, never-downloaded look
+          if (state.status === 'cancelled') delete next[id];
+          else next[id] = state;
+          return next;
         });
-    }
+        if (state.status === 'done' || state.status === 'failed') {
+          setProcessing(prev => ({ ...prev, progress: (prev.progress || 0) + 1 }));
+        }
+        if (state.status === 'failed') {
+          console.error("Download failed for image", id, state.error);
+        }
+      },
+      prepareFile: async (img, fetched) => {
+        inspected.set(img.id, await inspectDownload(img, fetched.blob, fetched.source, fetched.proxy));
+        if (img.kind === 'video') return fetched.blob;
+        if (!downloadHashes.has(img.id)) {
+          await computePerceptualHash(fetched.blob)
+            .then(hash => downloadHashes.set(img.id, hash))
+            .catch(err => console.warn(`Could not hash image ${img.id}`, err));
+        }
+        // Format conversion / resizing / EXIF handling (a no-op with default settings)
+        return processImageForExport(fetched.blob, imageExport);
+      },
+      onFiles: async (post, img, files) => {
+        if (mode === 'zip') {
+          // Collect blobs and pack them once all images are fetched
+          if (!zipGroups.has(post.id)) zipGroups.set(post.id, { post, entries: [] });
+          zipGroups.get(post.id)!.entries.push(...files);
+        } else if (mode === 'folder') {
+          for (const file of files) await saveToFolder(post, file);
+        } else {
+          files.forEach(file => saveBlob(file.blob, file.fileName));
+        }
+        downloaded.push({ postId: post.id, imageId: img.id });
+        downloadInfos.set(img.id, inspected.get(img.id)!);
+      },
+    });
+    downloadManagerRef.current = null;
+    setImageHashes(prev => new Map([...downloadHashes, ...prev]));
 
-    let successCount = 0;
-    let failCount = 0;
-    const imagesToDownload = post.images.filter(img => targetIds.has(img.id));
+    const successCount = downloaded.length;
+    const failCount = results.reduce((sum, result) => sum + result.failed.length, 0);
 
-    // Sequential download
-    for (const img of imagesToDownload) {
-      try {
-        let blob: Blob;
-        
-        // Strategy: Try HQ first, then Fallback
-        try {
-          blob = await fetchBlobWithRetry(img.url);
-        } catch (hqError) {
-          console.warn(`HQ download failed for ${img.id}, trying fallback...`);
-          try {
-             blob = await fetchBlobWithRetry(img.previewUrl);
-          } catch (previewError) {
-             throw previewError;
+    if (results.some(result => result.cancelled.length > 0)) {
+      // Nothing is packed or logged for a cancelled run; loose files already saved stay saved
+      setProcessing({ status: 'error', message: `已取消: 完成 ${successCount} 张` });
+      setTimeout(() => setProcessing({ status: 'idle' }), 2500);
+      return;
+    }
+
+    // Note text and metadata go next to the images of every post that got files
+    if (exportMetadata) {
+      const exportedPosts = posts.filter(post => downloaded.some(d => d.postId === post.id));
+      for (const post of exportedPosts) {
+        const metadataFiles = buildMetadataFiles(post);
+        if (mode === 'zip') {
+          zipGroups.get(post.id)?.entries.push(...metadataFiles);
+        } else if (mode === 'folder') {
+          for (const file of metadataFiles) {
+            await saveToFolder(post, file).catch(err => console.warn('Failed to write metadata', err));
           }
+        } else {
+          metadataFiles.forEach(file => saveBlob(file.blob, file.fileName));
         }
-        
-        const url = window.URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        
-        // Dynamic Extension based on real Mime Type
-        const ext = getExtFromMime(blob.type);
-        const fileName = img.aiName 
-          ? `${img.aiName}.${ext}` 
-          : `redsaver_${post.id}_${img.id}.${ext}`;
-        
-        a.download = fileName;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        window.URL.revokeObjectURL(url);
-        
-        successCount++;
-        setProcessing(prev => ({ ...prev, progress: successCount + failCount }));
-        
-      } catch (e) {
-        console.error("Download failed for image", img.id, e);
-        failCount++;
-        setFailedIds(prev => new Set(prev).add(img.id));
-        setProcessing(prev => ({ ...prev, progress: successCount + failCount }));
       }
+    }
 
-      // Slower delay (1500ms) to reduce proxy rate limiting
-      if (successCount + failCount < imagesToDownload.length) {
-          await new Promise(r => setTimeout(r, 1500));
+    if (mode === 'zip' && zipGroups.size > 0) {
+      try {
+        setProcessing(prev => ({ ...prev, message: '打包中 0%' }));
+        const groups = Array.from(zipGroups.values());
+        const zipBlob = await buildPostsZip(groups, (percent) => {
+          setProcessing(prev => ({ ...prev, message: `打包中 ${percent}%` }));
+        });
+        const zipName = groups.length === 1
+          ? `redsaver_${groups[0].post.id}.zip`
+          : `redsaver_batch_${Date.now()}.zip`;
+        saveBlob(zipBlob, zipName);
+      } catch (e) {
+        console.error("ZIP packing failed", e);
+        setProcessing({ status: 'error', message: 'ZIP 打包失败，请切换为逐张下载' });
+        setTimeout(() => setProcessing({ status: 'idle' }), 5000);
+        return;
       }
     }
 
+    // Log to history only once files actually reached the user (after the ZIP was saved)
+    const downloadedByPost = new Map<string, string[]>();
+    downloaded.forEach(({ postId, imageId }) => {
+      downloadedByPost.set(postId, [...(downloadedByPost.get(postId) || []), imageId]);
+    });
+    downloadedByPost.forEach((imageIds, postId) => {
+      recordDownloads(postId, imageIds, downloadHashes)
+        .then(records => {
+          setDownloadRecords(prev => new Map([...prev, ...records.map(r => [r.imageId, r] as const)]));
+          const recorded = new Set(imageIds);
+          setHashedDownloads(prev => [...prev.filter(r => !recorded.has(r.imageId)), ...records.filter(r => r.phash)]);
+        })
+        .catch(err => console.warn('Failed to record downloads', err));
+    });
+
+    // Keep what each image really was on the post (and so in history) for the cards
+    posts.forEach(post => {
+      if (!post.images.some(img => downloadInfos.has(img.id))) return;
+      updatePost({
+        ...post,
+        images: post.images.map(img => (downloadInfos.has(img.id) ? { ...img, downloadInfo: downloadInfos.get(img.id) } : img)),
+      });
+    });
+    const degradedCount = Array.from(downloadInfos.values()).filter(isDegradedDownload).length;
+
     if (failCount > 0) {
        setProcessing({ status: 'error', message: `完成: ${successCount} 张, 失败: ${failCount} 张` });
+    } else if (degradedCount > 0) {
+       setProcessing({ status: 'error', message: `下载完成，但 ${degradedCount} 张不是原图分辨率` });
     } else {
-       setProcessing({ status: 'success', message: '全部下载完成!' });
+       setProcessing({
+         status: 'success',
+         message: skippedFiles > 0 ? `下载完成，跳过 ${skippedFiles} 个已存在的文件` : '全部下载完成!',
+       });
     }
     // Keep error message visible longer
-    const timeout = failCount > 0 ? 5000 : 2500;
+    const timeout = failCount > 0 || degradedCount > 0 ? 5000 : 2500;
     setTimeout(() => {
         if (failCount === 0) setProcessing({ status: 'idle' });
-        // If there are failures, we might want to keep the state distinguishable, but for now idle is fine as UI updates based on failedIds
+        // If there are failures, we might want to keep the state distinguishable, but for now idle is fine as UI updates based on downloadStates
         else setProcessing({ status: 'idle' }); 
     }, timeout);
   };
 
+  // Launch pipeline: parse -> select -> rename -> download. Each step starts once
+  // the previous one has settled back to idle, so it sees the updated posts.
+  useEffect(() => {
+    if (!launch || launchStage === 'done') return;
+    if (launchStage === 'parse') {
+      if (launchStartedRef.current) return; // StrictMode runs mount effects twice
+      launchStartedRef.current = true;
+      clearLaunchParams();
+      setLaunchStage('select');
+      handleSearch(launch.text);
+      return;
+    }
+    if (processing.status !== 'idle') return;
+    if (posts.length === 0) {
+      setLaunchStage('done'); // Parsing failed; the error has already been shown
+      return;
+    }
+
+    if (launchStage === 'select') {
+      if (launch.select) setSelectedIds(new Set(resolveSelection(posts[0], launch.select)));
+      setLaunchStage('rename');
+    } else if (launchStage === 'rename') {
+      setLaunchStage('download');
+      if (launch.rename && isNamingReady) handleSmartRename();
+    } else if (launchStage === 'download') {
+      setLaunchStage('done');
+      if (launch.download && selectedIds.size > 0) {
+        // No click led here, so the browser would refuse the folder permission prompt
+        const mode = launch.download === 'current' ? effectiveDownloadMode : launch.download;
+        handleDownload(false, mode === 'folder' ? 'zip' : mode).catch(err => {
+          console.error('Launch download failed', err);
+          setProcessing({ status: 'error', message: `下载失败: ${err?.message || err}` });
+          setTimeout(() => setProcessing({ status: 'idle' }), 5000);
+        });
+      }
+    }
+  }, [launchStage, processing.status, queue]);
+
+  // The open post and its selection live in the hash, so the view can be bookmarked or shared.
+  // Left alone while a launch is still restoring it.
+  useEffect(() => {
+    if (launchStage !== 'done' && launchStage !== 'download') return;
+    writeViewHash(queue.length === 1 && posts.length === 1 ? posts[0] : null, selectedIds);
+  }, [launchStage, queue, selectedIds]);
+
   // Calculate download progress percentage
   const downloadProgress = processing.total 
     ? Math.round(((processing.progress || 0) / processing.total) * 100) 
@@ -191,12 +746,21 @@ const App: React.FC = () => {
             </div>
             <h1 className="font-bold text-xl tracking-tight text-xhs-dark">RedSaver</h1>
           </div>
-          <button 
-            onClick={() => setShowApiKeyModal(true)}
-            className="p-2 text-gray-400 hover:text-xhs-dark transition-colors"
-          >
-            <Settings size={20} />
-          </button>
+          <div className="flex items-center">
+            <button 
+              onClick={() => setShowHistory(true)}
+              className="p-2 text-gray-400 hover:text-xhs-dark transition-colors"
+              title="历史记录"
+            >
+              <History size={20} />
+            </button>
+            <button 
+              onClick={() => setShowApiKeyModal(true)}
+              className="p-2 text-gray-400 hover:text-xhs-dark transition-colors"
+            >
+              <Settings size={20} />
+            </button>
+          </div>
         </div>
       </header>
 
@@ -204,9 +768,13 @@ const App: React.FC = () => {
       <div className="bg-white pb-8 pt-6 rounded-b-[2rem] shadow-sm mb-6">
         <div className="max-w-2xl mx-auto text-center mb-6 px-4">
           <h2 className="text-2xl font-bold text-xhs-dark mb-2">一键提取无水印原图</h2>
-          <p className="text-gray-500 text-sm">支持小红书帖子链接解析，Gemini AI 智能重命名</p>
+          <p className="text-gray-500 text-sm">支持小红书帖子链接解析，AI 智能重命名</p>
         </div>
-        <SearchBar onSearch={handleSearch} isLoading={processing.status === 'analyzing'} />
+        <SearchBar 
+          onSearch={handleSearch} 
+          onBatchSearch={handleBatchSearch} 
+          isLoading={processing.status === 'analyzing'} 
+        />
         
         {processing.status === 'error' && (
           <div className="text-center text-red-500 mt-4 text-sm font-medium animate-pulse">
@@ -222,46 +790,75 @@ const App: React.FC = () => {
 
       {/* Content Area */}
       <main className="max-w-3xl mx-auto px-4">
-        {post && (
-          <>
+        {profile && (
+          <ProfileGallery 
+            profile={profile}
+            queuedUrls={new Set(queue.map(item => item.url))}
+            onAddToQueue={handleBatchSearch}
+            onClose={() => setProfile(null)}
+            isBusy={processing.status !== 'idle'}
+          />
+        )}
+
+        {/* Batch Queue (only when more than a single link is involved) */}
+        {(queue.length > 1 || queue.some(item => item.status === 'failed')) && (
+          <BatchQueue 
+            items={queue}
+            onRetry={(url) => processQueue([url])}
+            onRemove={removeFromQueue}
+            onClear={clearQueue}
+            isBusy={processing.status !== 'idle'}
+          />
+        )}
+
+        {hasAnalysis && (
+          <ImageFilterBar 
+            filter={imageFilter}
+            onChange={setImageFilter}
+            tags={collectImageTags(allImages)}
+            matchCount={visibleImages.length}
+            totalCount={allImages.length}
+          />
+        )}
+
+        {posts.map(post => (
+          <section key={post.id} className="mb-10">
             {/* Post Info */}
-            <div className="flex items-center gap-3 mb-6 bg-white p-4 rounded-xl shadow-sm border border-gray-50">
-              <img 
-                src={post.authorAvatar}
-                alt="avatar" 
-                className="w-10 h-10 rounded-full" 
-                referrerPolicy="no-referrer"
-              />
-              <div className="flex-1 min-w-0">
-                <h3 className="font-medium text-xhs-dark truncate">{post.title}</h3>
-                <p className="text-xs text-gray-400">@{post.author}</p>
-              </div>
-              <div className="text-xs font-medium px-3 py-1 bg-gray-100 rounded-full text-gray-500">
-                {post.images.length} 张图片
-              </div>
-            </div>
+            <PostInfoCard post={post} savedBefore={savedBefore[post.id]} onExport={handleExportMetadata} />
+            <BulkRenameBar 
+              post={post} 
+              onApply={(images) => updatePost({
+                ...post,
+                images: images.map(img => ({ ...img, aiName: img.aiName && (sanitizeFilenamePart(img.aiName) || undefined) })),
+              })} 
+            />
 
             {/* Grid - Standard grid for reliable layout */}
             <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
-              {post.images.map(img => (
+              {post.images.filter(img => matchesImageFilter(img, activeFilter)).map(img => (
                 <ImageCard 
                   key={img.id} 
                   image={img} 
                   isSelected={selectedIds.has(img.id)}
                   onToggle={toggleSelection}
-                  onPreview={(url) => {
+                  onPreview={(url, videoUrl) => {
                     setPreviewError(false);
                     setPreviewImage(url);
+                    setPreviewVideo(videoUrl || null);
                   }}
-                  // Pass failure state to card
-                  hasError={failedIds.has(img.id)}
+                  // Pass download progress/failure state to card
+                  downloadState={downloadStates[img.id]}
+                  downloadedAt={downloadRecords.get(img.id)?.downloadedAt}
+                  onRename={(id, name) => renameImage(post, id, name)}
+                  nameCollision={collidingIds.has(img.id)}
+                  duplicate={duplicates.get(img.id)}
                 />
               ))}
             </div>
-          </>
-        )}
+          </section>
+        ))}
 
-        {!post && processing.status === 'idle' && (
+        {queue.length === 0 && !profile && processing.status === 'idle' && (
           <div className="text-center py-20 text-gray-300">
             <ImageIcon size={48} className="mx-auto mb-4 opacity-50" />
             <p>粘贴链接开始下载</p>
@@ -270,24 +867,24 @@ const App: React.FC = () => {
       </main>
 
       {/* Floating Action Bar */}
-      {post && (
+      {posts.length > 0 && (
         <div className="fixed bottom-6 left-4 right-4 z-30">
           <div className="max-w-xl mx-auto bg-xhs-dark/90 backdrop-blur-lg text-white rounded-full shadow-2xl p-2 pl-6 flex items-center justify-between">
             <div className="flex items-center gap-4 text-sm font-medium">
               <button onClick={toggleSelectAll} className="flex items-center gap-2 hover:text-gray-300 transition-colors">
-                <CheckSquare size={18} className={selectedIds.size === post.images.length ? "text-xhs-red" : "text-gray-400"} />
+                <CheckSquare size={18} className={allVisibleSelected ? "text-xhs-red" : "text-gray-400"} />
                 <span className="hidden xs:inline">全选 ({selectedIds.size})</span>
                 <span className="inline xs:hidden">({selectedIds.size})</span>
               </button>
             </div>
 
             <div className="flex items-center gap-2">
-               {/* Gemini Feature */}
+               {/* AI Naming */}
                <button 
-                onClick={handleSmartRename}
+                onClick={() => handleSmartRename(false)}
                 disabled={processing.status !== 'idle'}
                 className={`p-3 rounded-full transition-all ${
-                  post.images.some(i => i.aiName) 
+                  allImages.some(i => i.aiName) 
                     ? 'text-green-400 bg-white/10' 
                     : 'text-purple-300 hover:bg-white/10'
                 }`}
@@ -299,6 +896,36 @@ const App: React.FC = () => {
                   <Sparkles size={20} />
                 )}
               </button>
+              {namingFailedCount > 0 && processing.status === 'idle' && (
+                <button 
+                  onClick={() => handleSmartRename(true)}
+                  className="flex items-center gap-1 px-3 py-2 rounded-full text-purple-200 bg-white/10 hover:bg-white/20 text-xs font-bold transition-all"
+                  title="仅重试命名失败的图片"
+                >
+                  <RefreshCw size={14} />
+                  <span>命名 ({namingFailedCount})</span>
+                </button>
+              )}
+
+              {/* Download Mode Toggle: one file per image vs single ZIP */}
+              <button 
+                onClick={toggleDownloadMode}
+                disabled={processing.status !== 'idle'}
+                className={`p-3 rounded-full transition-all ${
+                  effectiveDownloadMode !== 'files' 
+                    ? 'text-yellow-300 bg-white/10' 
+                    : 'text-gray-400 hover:bg-white/10'
+                }`}
+                title={
+                  effectiveDownloadMode === 'zip' ? '打包为 ZIP 下载'
+                    : effectiveDownloadMode === 'folder' ? `保存到文件夹「${directory?.name}」`
+                    : '逐张下载'
+                }
+              >
+                {effectiveDownloadMode === 'zip' ? <FileArchive size={20} />
+                  : effectiveDownloadMode === 'folder' ? <FolderOpen size={20} />
+                  : <Files size={20} />}
+              </button>
 
               {/* Retry Button (Only appears if there are failures) */}
               {failedIds.size > 0 && processing.status === 'idle' && (
@@ -311,6 +938,26 @@ const App: React.FC = () => {
                   </button>
               )}
 
+              {/* Pause / Cancel (while fetching; ZIP packing itself cannot be interrupted) */}
+              {processing.status === 'downloading' && !processing.message && (
+                <>
+                  <button 
+                    onClick={togglePause}
+                    className="p-3 rounded-full text-white hover:bg-white/10 transition-all"
+                    title={processing.paused ? '继续' : '暂停'}
+                  >
+                    {processing.paused ? <Play size={20} /> : <Pause size={20} />}
+                  </button>
+                  <button 
+                    onClick={cancelDownload}
+                    className="p-3 rounded-full text-gray-300 hover:text-white hover:bg-white/10 transition-all"
+                    title="取消下载"
+                  >
+                    <Square size={18} />
+                  </button>
+                </>
+              )}
+
               {/* Main Download Button */}
               {!(failedIds.size > 0 && processing.status === 'idle') && (
                 <button 
@@ -328,15 +975,15 @@ const App: React.FC = () => {
                   <div className="relative z-10 flex items-center gap-2 whitespace-nowrap">
                     {processing.status === 'downloading' ? (
                       <>
-                        <Loader2 size={18} className="animate-spin" />
+                        {processing.paused ? <Pause size={18} /> : <Loader2 size={18} className="animate-spin" />}
                         <span className="tabular-nums text-xs sm:text-sm">
-                          {downloadProgress}% ({processing.progress}/{processing.total})
+                          {processing.message || `${downloadProgress}% (${processing.progress}/${processing.total})`}
                         </span>
                       </>
                     ) : (
                       <>
                         <Download size={18} />
-                        <span>下载</span>
+                        <span>{effectiveDownloadMode === 'zip' ? '下载 ZIP' : effectiveDownloadMode === 'folder' ? '保存' : '下载'}</span>
                       </>
                     )}
                   </div>
@@ -359,6 +1006,18 @@ const App: React.FC = () => {
               <p className="font-medium">预览加载失败</p>
               <p className="text-xs text-gray-500 mt-2">（可能是防盗链限制，不影响下载）</p>
             </div>
+          ) : previewVideo ? (
+            <video 
+              src={previewVideo}
+              poster={previewImage}
+              className="max-w-full max-h-full rounded-md shadow-2xl" 
+              controls
+              autoPlay
+              loop
+              playsInline
+              onClick={(e) => e.stopPropagation()}
+              onError={() => setPreviewError(true)}
+            />
           ) : (
             <img 
               src={previewImage}
@@ -375,37 +1034,111 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {/* History Panel */}
+      {showHistory && (
+        <HistoryPanel onOpen={openFromHistory} onClose={() => setShowHistory(false)} />
+      )}
+
       {/* Settings Modal (For API Key) */}
       {showApiKeyModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm">
-          <div className="bg-white rounded-2xl w-full max-w-sm p-6 shadow-2xl animate-bounce-slow" style={{animation: 'none'}}>
+          <div className="bg-white rounded-2xl w-full max-w-sm p-6 shadow-2xl animate-bounce-slow max-h-[90vh] overflow-y-auto no-scrollbar" style={{animation: 'none'}}>
             <div className="flex justify-between items-center mb-4">
-              <h3 className="text-lg font-bold text-xhs-dark">设置 Gemini API</h3>
+              <h3 className="text-lg font-bold text-xhs-dark">设置</h3>
               <button onClick={() => setShowApiKeyModal(false)}><X size={20} className="text-gray-400" /></button>
             </div>
             <p className="text-sm text-gray-500 mb-4">
-              要使用“AI 智能命名”功能，需要配置 Google Gemini API Key。
+              要使用“AI 智能命名”功能，需要选择命名服务并完成配置。
               <br/>
-              <span className="text-xs opacity-70">注意：这是一个纯前端应用，Key 仅存储在内存中，刷新即失效。</span>
+              <span className="text-xs opacity-70">注意：这是一个纯前端应用，Key 默认仅存储在内存中，刷新即失效；可设置口令加密保存在本机。其他设置修改后立即生效并自动保存在本机。</span>
             </p>
-            <input 
-              type="password" 
-              value={apiKey}
-              onChange={(e) => setApiKey(e.target.value)}
-              placeholder="Enter your API Key"
-              className="w-full bg-gray-100 rounded-lg px-4 py-3 mb-4 outline-none border border-transparent focus:border-xhs-red"
+            <NamingProviderSettings value={namingConfig} onChange={setNamingConfig} />
+            {getNamingProvider(namingConfig.provider).needsImage && (
+              <ApiKeyVault 
+                apiKey={namingConfig.apiKey}
+                vault={encryptedApiKey}
+                vaultKey={vaultKey}
+                onUnlock={(apiKey) => {
+                  setVaultKey(apiKey);
+                  setNamingConfig(prev => ({ ...prev, apiKey }));
+                }}
+                onVaultChange={(vault, apiKey) => {
+                  setEncryptedApiKey(vault);
+                  setVaultKey(vault ? apiKey : null);
+                }}
+              />
+            )}
+            <FilenameTemplateSettings value={filenameTemplate} onChange={setFilenameTemplate} samplePost={posts[0]} />
+            <ImageExportSettings value={imageExport} onChange={setImageExport} />
+            <DirectorySettings 
+              directory={directory}
+              conflictPolicy={conflictPolicy}
+              onPick={chooseDirectory}
+              onClear={clearDirectory}
+              onConflictPolicyChange={setConflictPolicy}
             />
+            <label className="flex items-center gap-2 mb-4 text-sm text-xhs-dark cursor-pointer">
+              <input 
+                type="checkbox" 
+                checked={exportMetadata} 
+                onChange={(e) => setExportMetadata(e.target.checked)}
+                className="accent-xhs-red"
+              />
+              下载时同时导出文案 (JSON + Markdown)
+            </label>
+            <label className="flex items-center gap-2 mb-4 text-sm text-xhs-dark cursor-pointer">
+              <input 
+                type="checkbox" 
+                checked={skipDuplicates} 
+                onChange={(e) => setSkipDuplicates(e.target.checked)}
+                className="accent-xhs-red"
+              />
+              下载前自动取消选择重复 / 相似图片
+            </label>
+            <div className="mb-4">
+              <div className="flex justify-between text-sm text-xhs-dark mb-1">
+                <span>同时下载数</span>
+                <span className="tabular-nums font-bold">{downloadConcurrency}</span>
+              </div>
+              <input 
+                type="range" 
+                min={1} 
+                max={6} 
+                value={downloadConcurrency}
+                onChange={(e) => setDownloadConcurrency(Number(e.target.value))}
+                className="w-full accent-xhs-red"
+              />
+              <p className="text-xs text-gray-400">数值越大越快，但公共代理更容易限流</p>
+            </div>
+            <ProxySettings value={customProxyText} onChange={setCustomProxyText} />
             <button 
               onClick={() => setShowApiKeyModal(false)}
               className="w-full bg-xhs-dark text-white font-bold py-3 rounded-lg hover:opacity-90 transition-opacity"
             >
-              保存
+              完成
             </button>
-            <div className="mt-4 text-center">
-              <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noreferrer" className="text-xs text-blue-500 hover:underline">
-                获取免费 API Key &rarr;
-              </a>
+            <div className="flex justify-center gap-4 mt-4 text-xs">
+              <button onClick={handleExportSettings} className="flex items-center gap-1 text-gray-400 hover:text-xhs-dark">
+                <Download size={12} />
+                导出设置
+              </button>
+              <button onClick={() => settingsFileRef.current?.click()} className="flex items-center gap-1 text-gray-400 hover:text-xhs-dark">
+                <Upload size={12} />
+                导入设置
+              </button>
+              <input 
+                ref={settingsFileRef}
+                type="file" 
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImportSettings(file);
+                  e.target.value = '';
+                }}
+              />
             </div>
+            {settingsError && <p className="text-xs text-red-500 text-center mt-2">{settingsError}</p>}
           </div>
         </div>
       )}
@@ -0,0 +1,193 @@
+// Node CLI over the library in ../lib: the app's parse -> rename -> download
+// pipeline for scripts and cron jobs.
+//
+//   redsaver <url...> [--out dir] [--rename] [--zip] [--metadata]
+//            [--template "{author}_{index}.{ext}"] [--provider gemini|openai|heuristic]
+//            [--model name] [--base-url url] [--language zh|en|pinyin|both] [--concurrency n]
+//
+// Arguments may be full share texts; "-" reads links from stdin. Gemini and
+// OpenAI-compatible keys come from GEMINI_API_KEY / OPENAI_API_KEY.
+
+import { parseArgs } from 'node:util';
+import { mkdir, writeFile, access } from 'node:fs/promises';
+import path from 'node:path';
+import {
+  XhsPost,
+  NamingConfig,
+  NamingProviderId,
+  NAMING_PROVIDERS,
+  NAMING_LANGUAGES,
+  NamingLanguage,
+  DIRECT_PROXIES,
+  DEFAULT_FILENAME_TEMPLATE,
+  ZipGroup,
+  createProxyPool,
+  createXhsClient,
+  findXhsUrls,
+  generateSmartNames,
+  getNamingProvider,
+  fetchPostFiles,
+  buildMetadataFiles,
+  buildPostsZip,
+  buildPostFolderPath,
+  describeXhsError,
+} from '../lib';
+
+const USAGE = `Usage: redsaver <url...> [options]
+
+  -o, --out <dir>         Output directory (default: current directory)
+  -r, --rename            Name images with the naming provider before saving
+  -z, --zip               Write one ZIP instead of author/note folders
+  -m, --metadata          Also save note text as JSON + Markdown
+  -t, --template <tpl>    Filename template (default: ${DEFAULT_FILENAME_TEMPLATE})
+      --provider <id>     ${NAMING_PROVIDERS.map(p => p.id).join(' | ')} (default: gemini with GEMINI_API_KEY, else heuristic)
+      --model <name>      Naming model
+      --base-url <url>    OpenAI-compatible endpoint, e.g. http://localhost:11434/v1
+      --language <id>     ${NAMING_LANGUAGES.map(l => l.id).join(' | ')} (default: en)
+  -c, --concurrency <n>   Parallel downloads (default: 2)
+  -h, --help              Show this help
+
+Pass "-" to read links (or share texts) from stdin.`;
+
+const fail = (message: string): never => {
+  console.error(`redsaver: ${message}`);
+  process.exit(2);
+};
+
+const readStdin = async (): Promise<string> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+const buildNamingConfig = (values: Record<string, any>): NamingConfig => {
+  const providerId = (values.provider || (process.env.GEMINI_API_KEY ? 'gemini' : 'heuristic')) as NamingProviderId;
+  if (!NAMING_PROVIDERS.some(p => p.id === providerId)) fail(`unknown provider "${providerId}"`);
+  const language = (values.language || 'en') as NamingLanguage;
+  if (!NAMING_LANGUAGES.some(l => l.id === language)) fail(`unknown language "${language}"`);
+
+  const provider = getNamingProvider(providerId);
+  const config: NamingConfig = {
+    provider: providerId,
+    apiKey: (providerId === 'gemini' ? process.env.GEMINI_API_KEY : process.env.OPENAI_API_KEY) || '',
+    model: values.model || provider.defaultModel,
+    baseUrl: values['base-url'] || provider.defaultBaseUrl,
+    language,
+    promptTemplate: '',
+  };
+  if (!provider.isConfigured(config)) {
+    fail(`naming provider "${providerId}" is not configured (API key, --base-url or --model missing)`);
+  }
+  return config;
+};
+
+const exists = (file: string) => access(file).then(() => true, () => false);
+
+const writeBlob = async (file: string, blob: Blob) => {
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(file, new Uint8Array(await blob.arrayBuffer()));
+};
+
+const OPTIONS = {
+  out: { type: 'string', short: 'o', default: '.' },
+  rename: { type: 'boolean', short: 'r', default: false },
+  zip: { type: 'boolean', short: 'z', default: false },
+  metadata: { type: 'boolean', short: 'm', default: false },
+  template: { type: 'string', short: 't', default: DEFAULT_FILENAME_TEMPLATE },
+  provider: { type: 'string' },
+  model: { type: 'string' },
+  'base-url': { type: 'string' },
+  language: { type: 'string' },
+  concurrency: { type: 'string', short: 'c', default: '2' },
+  help: { type: 'boolean', short: 'h', default: false },
+} as const;
+
+// Unknown options and missing option values are usage errors, not crashes
+const readArgs = () => {
+  try {
+    return parseArgs({ allowPositionals: true, options: OPTIONS });
+  } catch (err: any) {
+    console.error(`redsaver: ${err?.message || err}\n\n${USAGE}`);
+    return process.exit(2);
+  }
+};
+
+const main = async () => {
+  const { values, positionals } = readArgs();
+
+  if (values.help || positionals.length === 0) {
+    console.log(USAGE);
+    process.exit(values.help ? 0 : 2);
+  }
+
+  const concurrency = Number(values.concurrency);
+  if (!Number.isInteger(concurrency) || concurrency < 1) fail('--concurrency must be a positive integer');
+  const naming = values.rename ? buildNamingConfig(values) : null;
+
+  // Each argument may be a share text holding several links; "-" is stdin
+  const texts = await Promise.all(positionals.map(arg => (arg === '-' ? readStdin() : Promise.resolve(arg))));
+  const links = Array.from(new Set(texts.flatMap(text => findXhsUrls(text))));
+  if (links.length === 0) fail('no xiaohongshu.com / xhslink.com links found');
+
+  const client = createXhsClient(createProxyPool(DIRECT_PROXIES));
+  const outDir = path.resolve(values.out!);
+  const zipGroups: ZipGroup[] = [];
+  let failures = 0;
+
+  // Notes one after another, like the app's queue, to stay under rate limits
+  for (const link of links) {
+    let post: XhsPost;
+    try {
+      post = await client.parseXhsLink(link);
+    } catch (err) {
+      console.error(`✗ ${link}: ${describeXhsError(err)}`);
+      failures++;
+      continue;
+    }
+    console.log(`• ${post.title || post.id} (${post.author}, ${post.images.length} files)`);
+
+    if (naming) {
+      const images = await generateSmartNames(post, naming, { fetchImage: url => client.fetchBlobWithRetry(url) });
+      const namingFailed = images.filter(img => img.namingError).length;
+      if (namingFailed > 0) console.warn(`  ${namingFailed} images kept their default names (naming failed)`);
+      post = { ...post, images };
+    }
+
+    const { files, failed } = await fetchPostFiles(client, post, { filenameTemplate: values.template, concurrency });
+    failed.forEach(({ imageId, error }) => console.error(`  ✗ ${imageId}: ${error}`));
+    failures += failed.length;
+    const entries = values.metadata ? [...files, ...buildMetadataFiles(post)] : files;
+
+    if (values.zip) {
+      if (files.length > 0) zipGroups.push({ post, entries });
+      continue;
+    }
+
+    // Same layout as the app's folder mode; existing files are left alone
+    const folder = path.join(outDir, ...buildPostFolderPath(post));
+    let skipped = 0;
+    for (const entry of entries) {
+      const file = path.join(folder, entry.fileName);
+      if (await exists(file)) {
+        skipped++;
+        continue;
+      }
+      await writeBlob(file, entry.blob);
+    }
+    console.log(`  → ${folder} (${entries.length - skipped} written${skipped ? `, ${skipped} already existed` : ''})`);
+  }
+
+  if (zipGroups.length > 0) {
+    const zipName = zipGroups.length === 1 ? `redsaver_${zipGroups[0].post.id}.zip` : `redsaver_batch_${Date.now()}.zip`;
+    const zipPath = path.join(outDir, zipName);
+    await writeBlob(zipPath, await buildPostsZip(zipGroups));
+    console.log(`→ ${zipPath}`);
+  }
+
+  process.exit(failures > 0 ? 1 : 0);
+};
+
+main().catch(err => {
+  console.error(`redsaver: ${err?.stack || err}`);
+  process.exit(1);
+});
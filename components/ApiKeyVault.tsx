@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { Lock, Unlock, Trash2 } from 'lucide-react';
+import { EncryptedSecret, encryptSecret, decryptSecret, isWebCryptoAvailable } from '../services/secretBox';
+
+interface ApiKeyVaultProps {
+  apiKey: string; // Key currently held in memory
+  vault: EncryptedSecret | null; // Encrypted copy saved on this device
+  vaultKey: string | null; // What the vault holds, once unlocked or saved in this session
+  onUnlock: (apiKey: string) => void;
+  onVaultChange: (vault: EncryptedSecret | null, apiKey: string) => void;
+}
+
+const inputClass = 'flex-1 min-w-0 bg-gray-100 rounded-lg px-3 py-2 text-sm outline-none border border-transparent focus:border-xhs-red';
+const buttonClass = 'flex items-center gap-1 bg-xhs-dark text-white text-xs font-bold px-3 py-2 rounded-lg disabled:opacity-40 whitespace-nowrap';
+
+export const ApiKeyVault: React.FC<ApiKeyVaultProps> = ({ apiKey, vault, vaultKey, onUnlock, onVaultChange }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Key derivation is deliberately slow, so show progress and surface failures inline
+  const run = async (work: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await work();
+      setPassphrase('');
+    } catch (err: any) {
+      setError(err?.message || String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const unlock = () => run(async () => onUnlock(await decryptSecret(vault!, passphrase)));
+  const save = () => run(async () => onVaultChange(await encryptSecret(apiKey, passphrase), apiKey));
+
+  if (!isWebCryptoAvailable()) {
+    return <p className="text-xs text-gray-400 mb-4">当前环境不支持加密保存 Key（需要 HTTPS 或 localhost）。</p>;
+  }
+
+  const locked = !!vault && !apiKey;
+  // The key was edited (or never checked against the vault), so a reload would bring back the old one
+  const stale = !!vault && !!apiKey && apiKey !== vaultKey;
+  if (!vault && !apiKey) return null;
+
+  return (
+    <div className="mb-4 -mt-2">
+      {vault ? (
+        <div className="flex items-center gap-2 text-xs text-gray-500 mb-2">
+          {locked || stale ? <Lock size={12} /> : <Unlock size={12} className="text-green-500" />}
+          <span className="flex-1">
+            {locked
+              ? '本机保存了加密的 API Key，输入口令解锁'
+              : stale
+                ? '当前 Key 与本机加密保存的不同，重新加密保存以替换'
+                : 'API Key 已加密保存在本机'}
+          </span>
+          <button onClick={() => onVaultChange(null, '')} className="p-1 text-gray-400 hover:text-red-500" title="删除本机保存的 Key">
+            <Trash2 size={12} />
+          </button>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500 mb-2">设置口令后可将 API Key 加密保存在本机，下次打开输入口令即可使用。</p>
+      )}
+
+      {(locked || stale || !vault) && (
+        <div className="flex gap-2">
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && passphrase && (locked ? unlock() : save())}
+            placeholder="口令"
+            className={inputClass}
+          />
+          <button onClick={locked ? unlock : save} disabled={!passphrase || busy} className={buttonClass}>
+            {locked ? <Unlock size={12} /> : <Lock size={12} />}
+            {busy ? '处理中…' : locked ? '解锁' : stale ? '重新加密' : '加密保存'}
+          </button>
+        </div>
+      )}
+      {error && <p className="text-xs text-red-500 mt-1">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+import React from 'react';
+import { Loader2, CheckCircle2, XCircle, Clock, RefreshCw, Trash2 } from 'lucide-react';
+import { QueueItem, QueueStatus } from '../types';
+
+interface BatchQueueProps {
+  items: QueueItem[];
+  onRetry: (url: string) => void;
+  onRemove: (url: string) => void;
+  onClear: () => void;
+  isBusy: boolean;
+}
+
+const STATUS_LABELS: Record<QueueStatus, string> = {
+  queued: '排队中',
+  parsing: '解析中',
+  ready: '已就绪',
+  failed: '失败',
+};
+
+const StatusIcon: React.FC<{ status: QueueStatus }> = ({ status }) => {
+  switch (status) {
+    case 'parsing': return <Loader2 size={14} className="animate-spin text-blue-500" />;
+    case 'ready': return <CheckCircle2 size={14} className="text-green-500" />;
+    case 'failed': return <XCircle size={14} className="text-red-500" />;
+    case 'queued':
+    default:
+      return <Clock size={14} className="text-gray-400" />;
+  }
+};
+
+export const BatchQueue: React.FC<BatchQueueProps> = ({ items, onRetry, onRemove, onClear, isBusy }) => {
+  const readyCount = items.filter(item => item.status === 'ready').length;
+
+  return (
+    <div className="mb-6 bg-white p-4 rounded-xl shadow-sm border border-gray-50">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-medium text-xhs-dark text-sm">
+          批量队列 <span className="text-gray-400">({readyCount}/{items.length})</span>
+        </h3>
+        <button
+          onClick={onClear}
+          disabled={isBusy}
+          className="text-xs text-gray-400 hover:text-xhs-red disabled:opacity-50"
+        >
+          清空队列
+        </button>
+      </div>
+
+      <ul className="space-y-2 max-h-60 overflow-y-auto no-scrollbar">
+        {items.map(item => (
+          <li key={item.url} className="flex items-center gap-2 text-xs">
+            <StatusIcon status={item.status} />
+            <div className="flex-1 min-w-0">
+              <p className="truncate text-xhs-dark">{item.post?.title || item.url}</p>
+              {item.status === 'failed' && item.error && (
+                <p className="truncate text-red-400">{item.error}</p>
+              )}
+            </div>
+            <span className="text-gray-400 whitespace-nowrap">
+              {item.post ? `${item.post.images.length} 张` : STATUS_LABELS[item.status]}
+            </span>
+            {item.status === 'failed' && (
+              <button
+                onClick={() => onRetry(item.url)}
+                disabled={isBusy}
+                className="p-1 text-gray-400 hover:text-xhs-dark disabled:opacity-50"
+                title="重试"
+              >
+                <RefreshCw size={12} />
+              </button>
+            )}
+            <button
+              onClick={() => onRemove(item.url)}
+              disabled={isBusy || item.status === 'parsing'}
+              className="p-1 text-gray-400 hover:text-xhs-red disabled:opacity-50"
+              title="移除"
+            >
+              <Trash2 size={12} />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
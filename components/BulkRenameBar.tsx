@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { Replace, X } from 'lucide-react';
+import { XhsPost, XhsImage } from '../types';
+
+interface BulkRenameBarProps {
+  post: XhsPost;
+  onApply: (images: XhsImage[]) => void;
+}
+
+// Plain-text find/replace over the names of one post's images
+export const BulkRenameBar: React.FC<BulkRenameBarProps> = ({ post, onApply }) => {
+  const [open, setOpen] = useState(false);
+  const [find, setFind] = useState('');
+  const [replace, setReplace] = useState('');
+
+  const matches = find ? post.images.filter(img => img.aiName?.includes(find)) : [];
+
+  const apply = () => {
+    if (matches.length === 0) return;
+    onApply(post.images.map(img =>
+      img.aiName?.includes(find) ? { ...img, aiName: img.aiName.split(find).join(replace) } : img
+    ));
+    setFind('');
+    setReplace('');
+  };
+
+  if (!post.images.some(img => img.aiName)) return null;
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="mb-3 text-xs text-gray-400 hover:text-xhs-dark flex items-center gap-1 transition-colors"
+      >
+        <Replace size={12} />
+        批量替换文件名
+      </button>
+    );
+  }
+
+  return (
+    <div className="mb-3 bg-white p-3 rounded-xl shadow-sm border border-gray-50 flex flex-wrap items-center gap-2">
+      <input
+        type="text"
+        value={find}
+        onChange={(e) => setFind(e.target.value)}
+        placeholder="查找"
+        className="flex-1 min-w-[6rem] bg-gray-100 rounded-lg px-3 py-1.5 text-sm outline-none border border-transparent focus:border-xhs-red"
+      />
+      <input
+        type="text"
+        value={replace}
+        onChange={(e) => setReplace(e.target.value)}
+        onKeyDown={(e) => e.key === 'Enter' && apply()}
+        placeholder="替换为"
+        className="flex-1 min-w-[6rem] bg-gray-100 rounded-lg px-3 py-1.5 text-sm outline-none border border-transparent focus:border-xhs-red"
+      />
+      <button
+        onClick={apply}
+        disabled={matches.length === 0}
+        className="bg-xhs-dark text-white text-xs font-bold px-3 py-2 rounded-lg disabled:opacity-40 transition-opacity whitespace-nowrap"
+      >
+        替换{find ? ` (${matches.length})` : ''}
+      </button>
+      <button onClick={() => setOpen(false)} className="p-1.5 text-gray-400 hover:text-xhs-dark" title="关闭">
+        <X size={14} />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+import React from 'react';
+import { FolderOpen, Trash2 } from 'lucide-react';
+import { ConflictPolicy, CONFLICT_POLICIES, isDirectoryPickerAvailable } from '../services/directoryStore';
+
+interface DirectorySettingsProps {
+  directory: FileSystemDirectoryHandle | null;
+  conflictPolicy: ConflictPolicy;
+  onPick: () => void;
+  onClear: () => void;
+  onConflictPolicyChange: (policy: ConflictPolicy) => void;
+}
+
+// Target folder and conflict policy for the "save to folder" download mode
+export const DirectorySettings: React.FC<DirectorySettingsProps> = ({ directory, conflictPolicy, onPick, onClear, onConflictPolicyChange }) => {
+  if (!isDirectoryPickerAvailable()) {
+    return <p className="text-xs text-gray-400 mb-4">当前浏览器不支持直接保存到文件夹，将使用 ZIP 或逐张下载。</p>;
+  }
+
+  return (
+    <div className="mb-4">
+      <h4 className="text-sm font-bold text-xhs-dark mb-1">保存到文件夹</h4>
+      <div className="flex items-center gap-2 mb-2">
+        <button
+          type="button"
+          onClick={onPick}
+          className="flex-1 min-w-0 flex items-center gap-2 bg-gray-100 hover:bg-gray-200 rounded-lg px-3 py-2 text-sm text-left transition-colors"
+        >
+          <FolderOpen size={14} className="text-gray-500 shrink-0" />
+          <span className={`truncate ${directory ? 'text-xhs-dark' : 'text-gray-400'}`}>
+            {directory ? directory.name : '选择文件夹…'}
+          </span>
+        </button>
+        {directory && (
+          <button type="button" onClick={onClear} className="p-1.5 text-gray-400 hover:text-red-500" title="不再使用此文件夹">
+            <Trash2 size={14} />
+          </button>
+        )}
+      </div>
+      <div className="flex gap-1">
+        {CONFLICT_POLICIES.map(({ id, label }) => (
+          <button
+            key={id}
+            type="button"
+            onClick={() => onConflictPolicyChange(id)}
+            className={`flex-1 text-xs py-1.5 rounded-lg transition-colors ${
+              conflictPolicy === id ? 'bg-xhs-dark text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-gray-400 mt-1">按「作者/标题_笔记ID」建立子文件夹；在下载栏切换到文件夹模式后生效</p>
+    </div>
+  );
+};
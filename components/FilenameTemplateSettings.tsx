@@ -0,0 +1,69 @@
+import React from 'react';
+import { XhsPost } from '../types';
+import { FILENAME_TOKENS, DEFAULT_FILENAME_TEMPLATE, renderFilename, createUniqueNamer } from '../services/filenameTemplate';
+
+interface FilenameTemplateSettingsProps {
+  value: string;
+  onChange: (value: string) => void;
+  samplePost?: XhsPost; // Current post, so the preview shows real names
+}
+
+// Stand-in used for the preview before any note has been parsed
+const EXAMPLE_POST: XhsPost = {
+  id: '64f1a2b3000000001e03c4d5',
+  noteType: 'image',
+  title: '周末去哪儿｜城市漫步路线',
+  author: '小红薯',
+  authorAvatar: '',
+  timestamp: Date.now(),
+  sourceUrl: '',
+  noteUrl: '',
+  desc: '',
+  tags: [],
+  stats: { likes: null, collects: null, comments: null, shares: null },
+  images: [
+    { id: '1040g2sg30abcd', kind: 'image', url: '', previewUrl: '', width: 1080, height: 1440, aiName: 'city-walk-sunset' },
+    { id: '1040g2sg30efgh', kind: 'image', url: '', previewUrl: '', width: 1080, height: 1440 },
+    { id: '1040g2sg30ijkl', kind: 'image', url: '', previewUrl: '', width: 1080, height: 1440, aiName: 'city-walk-sunset' },
+  ],
+};
+
+export const FilenameTemplateSettings: React.FC<FilenameTemplateSettingsProps> = ({ value, onChange, samplePost }) => {
+  const post = samplePost && samplePost.images.length > 0 ? samplePost : EXAMPLE_POST;
+  const uniqueName = createUniqueNamer();
+  const previews = post.images.slice(0, 3).map((image, index) =>
+    uniqueName(renderFilename(value, { post, image, index, ext: image.kind === 'video' ? 'mp4' : 'jpg' }))
+  );
+
+  return (
+    <div className="mb-4">
+      <h4 className="text-sm font-bold text-xhs-dark mb-1">文件名模板</h4>
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={DEFAULT_FILENAME_TEMPLATE}
+        className="w-full bg-gray-100 rounded-lg px-3 py-2 text-sm font-mono outline-none border border-transparent focus:border-xhs-red"
+      />
+      <div className="flex flex-wrap gap-1 mt-2">
+        {FILENAME_TOKENS.map(({ token, label }) => (
+          <button
+            key={token}
+            type="button"
+            onClick={() => onChange(`${value}${token}`)}
+            className="text-[11px] font-mono bg-gray-100 hover:bg-gray-200 text-gray-600 px-1.5 py-0.5 rounded"
+            title={label}
+          >
+            {token}
+          </button>
+        ))}
+      </div>
+      <div className="mt-2 bg-gray-50 rounded-lg px-3 py-2 space-y-0.5">
+        <p className="text-[11px] text-gray-400">预览{samplePost ? '' : ' (示例笔记)'}</p>
+        {previews.map((name, i) => (
+          <p key={i} className="text-xs font-mono text-xhs-dark truncate" title={name}>{name}</p>
+        ))}
+      </div>
+    </div>
+  );
+};
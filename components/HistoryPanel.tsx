@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import { X, Search, Trash2, Loader2, History } from 'lucide-react';
+import { HistoryEntry } from '../types';
+import { listHistory, deleteHistoryEntry } from '../services/historyStore';
+
+interface HistoryPanelProps {
+  onOpen: (entry: HistoryEntry) => void;
+  onClose: () => void;
+}
+
+const formatDate = (ms: number) => new Date(ms).toLocaleString('zh-CN', { hour12: false });
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ onOpen, onClose }) => {
+  const [entries, setEntries] = useState<HistoryEntry[] | null>(null);
+  const [query, setQuery] = useState('');
+  const [loadError, setLoadError] = useState(false);
+
+  useEffect(() => {
+    listHistory()
+      .then(setEntries)
+      .catch((err) => {
+        console.error('Failed to load history', err);
+        setLoadError(true);
+        setEntries([]);
+      });
+  }, []);
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteHistoryEntry(id);
+      setEntries(prev => (prev || []).filter(entry => entry.id !== id));
+    } catch (err) {
+      console.error('Failed to delete history entry', err);
+    }
+  };
+
+  const keyword = query.trim().toLowerCase();
+  const filtered = (entries || []).filter(entry =>
+    !keyword ||
+    entry.title.toLowerCase().includes(keyword) ||
+    entry.author.toLowerCase().includes(keyword) ||
+    entry.id.toLowerCase().includes(keyword)
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl w-full max-w-md p-6 shadow-2xl max-h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-bold text-xhs-dark">历史记录</h3>
+          <button onClick={onClose}><X size={20} className="text-gray-400" /></button>
+        </div>
+
+        <div className="flex items-center bg-gray-100 rounded-lg px-3 mb-4">
+          <Search size={16} className="text-gray-400" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="搜索标题、作者或笔记 ID"
+            className="flex-1 bg-transparent px-2 py-2.5 text-sm outline-none"
+          />
+        </div>
+
+        <div className="flex-1 overflow-y-auto no-scrollbar -mx-2">
+          {entries === null && (
+            <div className="py-10 flex justify-center text-gray-300">
+              <Loader2 size={24} className="animate-spin" />
+            </div>
+          )}
+
+          {entries !== null && filtered.length === 0 && (
+            <div className="py-10 text-center text-gray-300 text-sm">
+              <History size={32} className="mx-auto mb-2 opacity-50" />
+              {loadError ? '当前浏览器无法读取历史记录' : keyword ? '没有匹配的记录' : '暂无历史记录'}
+            </div>
+          )}
+
+          {filtered.map(entry => {
+            const downloadedCount = Object.keys(entry.downloads).length;
+            return (
+              <div
+                key={entry.id}
+                className="flex items-center gap-3 px-2 py-2 rounded-lg hover:bg-gray-50 cursor-pointer group"
+                onClick={() => onOpen(entry)}
+              >
+                <img
+                  src={entry.post.images[0]?.previewUrl || entry.authorAvatar}
+                  alt=""
+                  className="w-12 h-12 rounded-lg object-cover bg-gray-100 flex-shrink-0"
+                  referrerPolicy="no-referrer"
+                />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-xhs-dark truncate">{entry.title}</p>
+                  <p className="text-xs text-gray-400 truncate">@{entry.author} · {formatDate(entry.updatedAt)}</p>
+                  <p className="text-[11px] text-gray-400">
+                    已下载 {downloadedCount}/{entry.post.images.length}
+                  </p>
+                </div>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleDelete(entry.id);
+                  }}
+                  className="p-2 text-gray-300 hover:text-xhs-red opacity-0 group-hover:opacity-100 transition-opacity"
+                  title="删除"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,16 +1,53 @@
-import React from 'react';
-import { Check, Maximize2, AlertCircle } from 'lucide-react';
-import { XhsImage } from '../types';
+import React, { useState } from 'react';
+import { Check, Maximize2, AlertCircle, AlertTriangle, Play, Clock, Pencil, Copy, Layers } from 'lucide-react';
+import { XhsImage, ImageDownloadState, DownloadInfo } from '../types';
+import { isDegradedDownload } from '../services/mediaInspector';
+import { DuplicateMatch } from '../services/perceptualHash';
 
 interface ImageCardProps {
   image: XhsImage;
   isSelected: boolean;
   onToggle: (id: string) => void;
-  onPreview: (url: string) => void;
-  hasError?: boolean;
+  onPreview: (url: string, videoUrl?: string) => void;
+  downloadState?: ImageDownloadState; // Progress of the current/last download run
+  downloadedAt?: number; // Set when this image was downloaded before
+  onRename: (id: string, name: string) => void;
+  nameCollision?: boolean; // Another selected image would get the same filename
+  duplicate?: DuplicateMatch; // Looks like an earlier image of this note or a previous download
 }
 
-export const ImageCard: React.FC<ImageCardProps> = ({ image, isSelected, onToggle, onPreview, hasError }) => {
+const formatBytes = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)}MB` : `${Math.round(bytes / 1024)}KB`;
+
+const describeDownload = (image: XhsImage, info: DownloadInfo): string => {
+  const lines = [
+    info.width ? `实际尺寸 ${info.width}×${info.height}` : '实际尺寸未知',
+    image.sizeDeclared ? `笔记标注 ${image.width}×${image.height}` : '笔记未标注尺寸',
+    `${formatBytes(info.bytes)} · ${info.format}`,
+    `来源：${info.source === 'original' ? '原图链接' : '预览图 (原图失败)'} · ${info.proxy}`,
+  ];
+  if (info.belowDeclared) lines.push('⚠ 低于笔记标注的分辨率');
+  return lines.join('\n');
+};
+
+export const ImageCard: React.FC<ImageCardProps> = ({ image, isSelected, onToggle, onPreview, downloadState, downloadedAt, onRename, nameCollision, duplicate }) => {
+  const status = downloadState?.status;
+  const hasError = status === 'failed';
+  const isBusy = status === 'queued' || status === 'downloading';
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+
+  const startEditing = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setDraft(image.aiName ?? '');
+    setEditing(true);
+  };
+
+  const commitEdit = () => {
+    setEditing(false);
+    if (draft.trim() !== (image.aiName ?? '')) onRename(image.id, draft);
+  };
+
   // Use direct URL. The service now preserves auth tokens (?), so direct access 
   // with referrerPolicy="no-referrer" should work without 403s.
   const displaySrc = image.previewUrl;
@@ -26,7 +63,8 @@ export const ImageCard: React.FC<ImageCardProps> = ({ image, isSelected, onToggl
       <div className="relative aspect-[3/4]">
         <img 
           src={displaySrc} 
-          alt={image.aiName || "xhs-image"} 
+          alt={image.analysis?.caption || image.aiName || "xhs-image"} 
+          title={image.analysis ? [image.analysis.caption, image.analysis.tags.map(tag => `#${tag}`).join(' ')].filter(Boolean).join('\n') : undefined}
           className="w-full h-full object-cover bg-gray-100"
           loading="lazy"
           referrerPolicy="no-referrer"
@@ -35,6 +73,50 @@ export const ImageCard: React.FC<ImageCardProps> = ({ image, isSelected, onToggl
         {/* Selection Overlay */}
         <div className={`absolute inset-0 bg-black/20 transition-opacity duration-200 ${isSelected ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`} />
 
+        {/* Media Kind Badge */}
+        {image.kind === 'video' && (
+          <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+            <div className="w-10 h-10 rounded-full bg-black/50 backdrop-blur-sm flex items-center justify-center">
+              <Play size={18} className="text-white ml-0.5" fill="currentColor" />
+            </div>
+          </div>
+        )}
+        {image.kind === 'live' && (
+          <div className="absolute top-3 left-12 bg-black/40 backdrop-blur-sm text-white text-[10px] font-bold px-1.5 py-0.5 rounded-md pointer-events-none">
+            LIVE
+          </div>
+        )}
+
+        {/* Already Downloaded Badge (also covers images finished in this run) */}
+        {(downloadedAt || status === 'done') && !hasError && (
+          <div 
+            className="absolute top-3 right-11 bg-green-500/90 text-white text-[10px] font-bold px-1.5 py-0.5 rounded-md pointer-events-none"
+            title={`已于 ${new Date(downloadedAt || Date.now()).toLocaleString('zh-CN', { hour12: false })} 下载`}
+          >
+            已下载
+          </div>
+        )}
+
+        {/* Downloaded Quality (size/format on hover, warning when not the original) */}
+        {image.downloadInfo && !isBusy && !hasError && (
+          isDegradedDownload(image.downloadInfo) ? (
+            <div 
+              className="absolute top-11 right-3 bg-amber-500/90 text-white text-[10px] font-bold px-1.5 py-0.5 rounded-md flex items-center gap-0.5"
+              title={describeDownload(image, image.downloadInfo)}
+            >
+              <AlertTriangle size={10} />
+              非原图
+            </div>
+          ) : (
+            <div 
+              className="absolute top-11 right-3 bg-black/40 backdrop-blur-sm text-white text-[10px] px-1.5 py-0.5 rounded-md tabular-nums opacity-0 group-hover:opacity-100 transition-opacity"
+              title={describeDownload(image, image.downloadInfo)}
+            >
+              {image.downloadInfo.width ? `${image.downloadInfo.width}×${image.downloadInfo.height}` : formatBytes(image.downloadInfo.bytes)}
+            </div>
+          )
+        )}
+
         {/* Checkbox */}
         <div className={`absolute top-3 right-3 w-6 h-6 rounded-full flex items-center justify-center border-2 transition-all ${
           isSelected ? 'bg-xhs-red border-xhs-red' : 'bg-black/30 border-white'
@@ -42,21 +124,108 @@ export const ImageCard: React.FC<ImageCardProps> = ({ image, isSelected, onToggl
           {isSelected && <Check size={14} className="text-white" />}
         </div>
 
+        {/* Download Progress */}
+        {(status === 'queued' || status === 'downloading') && downloadState && (
+          <div className="absolute inset-x-0 bottom-0 bg-black/60 backdrop-blur-sm px-2 pt-1.5 pb-2">
+            <div className="flex items-center justify-between text-white text-[10px] mb-1 tabular-nums">
+              {status === 'queued' ? (
+                <span className="flex items-center gap-1"><Clock size={10} />排队中</span>
+              ) : (
+                <>
+                  <span>下载中</span>
+                  <span>
+                    {formatBytes(downloadState.loaded)}
+                    {downloadState.total ? ` / ${formatBytes(downloadState.total)}` : ''}
+                  </span>
+                </>
+              )}
+            </div>
+            <div className="h-1 bg-white/20 rounded-full overflow-hidden">
+              <div 
+                className={`h-full bg-xhs-red transition-all duration-200 ${status === 'downloading' && !downloadState.total ? 'animate-pulse w-full' : ''}`}
+                style={downloadState.total ? { width: `${Math.min(100, (downloadState.loaded / downloadState.total) * 100)}%` } : status === 'queued' ? { width: 0 } : undefined}
+              />
+            </div>
+          </div>
+        )}
+
         {/* Error Badge */}
         {hasError && (
           <div className="absolute inset-0 flex items-center justify-center bg-black/50 backdrop-blur-[1px]">
              <div className="bg-red-500 text-white px-3 py-1.5 rounded-full flex items-center gap-1 text-xs font-bold shadow-lg">
                 <AlertCircle size={14} />
-                下载失败
+                <span title={downloadState?.error}>下载失败</span>
              </div>
           </div>
         )}
 
+        {/* Name Collision Badge */}
+        {nameCollision && !isBusy && (
+          <div 
+            className="absolute top-11 left-3 bg-amber-500/90 text-white text-[10px] font-bold px-1.5 py-0.5 rounded-md flex items-center gap-0.5 pointer-events-none"
+            title="与其他已选图片文件名相同，下载时会自动加序号"
+          >
+            <Copy size={10} />
+            重名
+          </div>
+        )}
+
+        {/* Near-Duplicate Badge (below the collision badge when both show) */}
+        {duplicate && !isBusy && (
+          <div 
+            className={`absolute ${nameCollision ? 'top-[4.25rem]' : 'top-11'} left-3 bg-sky-500/90 text-white text-[10px] font-bold px-1.5 py-0.5 rounded-md flex items-center gap-0.5 pointer-events-none`}
+            title={duplicate.kind === 'post' ? '与本笔记中前面的一张图片相同或相似' : '与之前下载过的图片相同或相似'}
+          >
+            <Layers size={10} />
+            {duplicate.kind === 'post' ? '重复' : '已存相似'}
+          </div>
+        )}
+
+        {/* Naming Failure Tag */}
+        {image.namingError && !image.aiName && !editing && !hasError && !isBusy && (
+          <div className="absolute bottom-2 left-2 right-2" onClick={startEditing}>
+            <div className="bg-amber-500/90 text-white text-[10px] px-2 py-1 rounded-md truncate flex items-center gap-1 cursor-text" title={`${image.namingError}（点击手动命名）`}>
+              <AlertCircle size={10} className="shrink-0" />
+              命名失败
+            </div>
+          </div>
+        )}
+
+        {/* Name Editor (click the tag to edit) */}
+        {editing && (
+          <div className="absolute bottom-2 left-2 right-2" onClick={(e) => e.stopPropagation()}>
+            <input
+              autoFocus
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onBlur={commitEdit}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitEdit();
+                if (e.key === 'Escape') setEditing(false);
+              }}
+              placeholder="输入文件名"
+              className={`w-full bg-white text-xhs-dark text-[11px] px-2 py-1 rounded-md outline-none ring-2 ${nameCollision ? 'ring-amber-500' : 'ring-xhs-red'}`}
+            />
+          </div>
+        )}
+
+        {/* Add Name Button (images without a name yet) */}
+        {!image.aiName && !image.namingError && !editing && !hasError && !isBusy && (
+          <button 
+            onClick={startEditing}
+            className="absolute bottom-2 left-2 flex items-center gap-1 bg-black/40 backdrop-blur-sm text-white text-[10px] px-2 py-1 rounded-md opacity-0 group-hover:opacity-100 transition-opacity"
+          >
+            <Pencil size={10} />
+            命名
+          </button>
+        )}
+
         {/* AI Name Tag */}
-        {image.aiName && !hasError && (
-          <div className="absolute bottom-2 left-2 right-2">
-            <div className="bg-black/60 backdrop-blur-sm text-white text-[10px] px-2 py-1 rounded-md truncate">
+        {image.aiName && !editing && !hasError && !isBusy && (
+          <div className="absolute bottom-2 left-2 right-2" onClick={startEditing} title="点击编辑文件名">
+            <div className={`backdrop-blur-sm text-white text-[10px] px-2 py-1 rounded-md truncate cursor-text ${nameCollision ? 'bg-amber-500/90' : 'bg-black/60 hover:bg-black/80'}`}>
               ✨ {image.aiName}
+              {image.namingError && <span className="text-amber-300" title={image.namingError}> (重命名失败)</span>}
             </div>
           </div>
         )}
@@ -67,7 +236,8 @@ export const ImageCard: React.FC<ImageCardProps> = ({ image, isSelected, onToggl
             e.stopPropagation();
             // Use previewUrl (Original URL) which is known to work in the browser, 
             // instead of the cleaned HQ URL which might trigger 403s.
-            onPreview(image.previewUrl); 
+            // Videos and Live Photos also hand over their clip for playback.
+            onPreview(image.previewUrl, image.kind === 'video' ? image.url : image.videoUrl); 
           }}
           className="absolute top-3 left-3 p-1.5 bg-black/30 backdrop-blur-sm rounded-full text-white opacity-0 group-hover:opacity-100 transition-opacity hover:bg-black/50"
         >
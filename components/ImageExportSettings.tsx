@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { ImageExportOptions, ExportFormat, EXPORT_FORMATS, getSupportedExportFormats } from '../services/imageExport';
+
+interface ImageExportSettingsProps {
+  value: ImageExportOptions;
+  onChange: (value: ImageExportOptions) => void;
+}
+
+// Common long-edge caps; 0 keeps the downloaded size
+const LONG_EDGE_PRESETS = [0, 4096, 2560, 2048, 1080];
+
+export const ImageExportSettings: React.FC<ImageExportSettingsProps> = ({ value, onChange }) => {
+  // Formats this browser can encode; null while probing
+  const [supported, setSupported] = useState<ExportFormat[] | null>(null);
+
+  useEffect(() => {
+    getSupportedExportFormats().then(setSupported);
+  }, []);
+
+  const isLossy = value.format === 'jpeg' || value.format === 'webp' || value.format === 'avif';
+  // Re-encoding to anything but JPEG drops EXIF regardless of the checkbox
+  const exifLost = value.format !== 'original' && value.format !== 'jpeg';
+
+  return (
+    <div className="mb-4">
+      <h4 className="text-sm font-bold text-xhs-dark mb-1">图片导出</h4>
+      <div className="flex gap-1 mb-2">
+        {EXPORT_FORMATS.map(({ id, label }) => {
+          const unsupported = supported !== null && !supported.includes(id);
+          return (
+            <button
+              key={id}
+              type="button"
+              onClick={() => onChange({ ...value, format: id })}
+              disabled={unsupported && value.format !== id}
+              title={unsupported ? '当前浏览器不支持导出该格式' : undefined}
+              className={`flex-1 text-xs py-1.5 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                value.format === id ? 'bg-xhs-dark text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+            >
+              {label}
+            </button>
+          );
+        })}
+      </div>
+      {supported !== null && !supported.includes(value.format) && (
+        <p className="text-xs text-amber-600 mb-2">当前浏览器无法导出该格式，将保存原文件。</p>
+      )}
+
+      {isLossy && (
+        <div className="mb-2">
+          <div className="flex justify-between text-xs text-gray-500 mb-1">
+            <span>质量</span>
+            <span className="tabular-nums">{Math.round(value.quality * 100)}</span>
+          </div>
+          <input
+            type="range"
+            min={50}
+            max={100}
+            value={Math.round(value.quality * 100)}
+            onChange={(e) => onChange({ ...value, quality: Number(e.target.value) / 100 })}
+            className="w-full accent-xhs-red"
+          />
+        </div>
+      )}
+
+      <div className="flex items-center justify-between text-xs text-gray-500 mb-2">
+        <span>长边上限</span>
+        <select
+          value={value.maxLongEdge}
+          onChange={(e) => onChange({ ...value, maxLongEdge: Number(e.target.value) })}
+          className="bg-gray-100 rounded-lg px-2 py-1 outline-none"
+        >
+          {LONG_EDGE_PRESETS.map(px => (
+            <option key={px} value={px}>{px === 0 ? '不缩放' : `${px}px`}</option>
+          ))}
+        </select>
+      </div>
+
+      <label className={`flex items-center gap-2 text-xs cursor-pointer ${exifLost ? 'text-gray-300' : 'text-gray-500'}`}>
+        <input
+          type="checkbox"
+          checked={value.keepExif && !exifLost}
+          disabled={exifLost}
+          onChange={(e) => onChange({ ...value, keepExif: e.target.checked })}
+          className="accent-xhs-red"
+        />
+        保留 EXIF 信息{exifLost ? '（该格式不支持）' : ''}
+      </label>
+      <p className="text-xs text-gray-400 mt-1">
+        在浏览器内转换，视频与动图保持原样。不保留时会移除 JPEG / PNG / WebP 中的 EXIF、XMP 与文本信息。
+      </p>
+    </div>
+  );
+};
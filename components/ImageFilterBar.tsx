@@ -0,0 +1,64 @@
+import React from 'react';
+import { Search, X } from 'lucide-react';
+import { ImageFilter, EMPTY_IMAGE_FILTER, isFilterActive } from '../services/imageFilter';
+
+interface ImageFilterBarProps {
+  filter: ImageFilter;
+  onChange: (filter: ImageFilter) => void;
+  tags: { tag: string; count: number }[];
+  matchCount: number;
+  totalCount: number;
+}
+
+// Tags beyond this are still searchable through the text box
+const MAX_TAG_CHIPS = 24;
+
+export const ImageFilterBar: React.FC<ImageFilterBarProps> = ({ filter, onChange, tags, matchCount, totalCount }) => {
+  const toggleTag = (tag: string) => {
+    const next = filter.tags.includes(tag) ? filter.tags.filter(t => t !== tag) : [...filter.tags, tag];
+    onChange({ ...filter, tags: next });
+  };
+
+  return (
+    <div className="mb-6 bg-white p-3 rounded-xl shadow-sm border border-gray-50">
+      <div className="flex items-center gap-2">
+        <div className="flex-1 flex items-center gap-2 bg-gray-100 rounded-lg px-3 py-2">
+          <Search size={14} className="text-gray-400 shrink-0" />
+          <input
+            type="text"
+            value={filter.query}
+            onChange={(e) => onChange({ ...filter, query: e.target.value })}
+            placeholder="搜索描述、标签或图中文字"
+            className="flex-1 bg-transparent text-sm outline-none min-w-0"
+          />
+        </div>
+        {isFilterActive(filter) && (
+          <>
+            <span className="text-xs text-gray-400 tabular-nums whitespace-nowrap">{matchCount}/{totalCount}</span>
+            <button onClick={() => onChange(EMPTY_IMAGE_FILTER)} className="p-1.5 text-gray-400 hover:text-xhs-dark" title="清除筛选">
+              <X size={14} />
+            </button>
+          </>
+        )}
+      </div>
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1.5 mt-2">
+          {tags.slice(0, MAX_TAG_CHIPS).map(({ tag, count }) => {
+            const active = filter.tags.includes(tag);
+            return (
+              <button
+                key={tag}
+                onClick={() => toggleTag(tag)}
+                className={`text-xs px-2 py-0.5 rounded-full transition-colors ${
+                  active ? 'bg-xhs-red text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                }`}
+              >
+                {tag} <span className="opacity-60 tabular-nums">{count}</span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+import React from 'react';
+import { NAMING_PROVIDERS, NamingConfig, NamingProviderId, getNamingProvider, DEFAULT_PROMPT_TEMPLATE, PROMPT_PLACEHOLDERS } from '../services/namingProviders';
+import { NAMING_LANGUAGES } from '../services/nameValidator';
+
+interface NamingProviderSettingsProps {
+  value: NamingConfig;
+  onChange: (value: NamingConfig) => void;
+}
+
+const inputClass = 'w-full bg-gray-100 rounded-lg px-3 py-2 text-sm outline-none border border-transparent focus:border-xhs-red';
+
+export const NamingProviderSettings: React.FC<NamingProviderSettingsProps> = ({ value, onChange }) => {
+  const provider = getNamingProvider(value.provider);
+
+  // Switching providers resets model and endpoint to that provider's defaults and
+  // drops the key, so a Gemini key is never sent to a third-party endpoint
+  const selectProvider = (id: NamingProviderId) => {
+    if (id === value.provider) return;
+    const next = getNamingProvider(id);
+    onChange({ ...value, provider: id, apiKey: '', model: next.defaultModel, baseUrl: next.defaultBaseUrl });
+  };
+
+  return (
+    <div className="mb-4">
+      <h4 className="text-sm font-bold text-xhs-dark mb-1">AI 智能命名</h4>
+      <select
+        value={value.provider}
+        onChange={(e) => selectProvider(e.target.value as NamingProviderId)}
+        className={`${inputClass} mb-2`}
+      >
+        {NAMING_PROVIDERS.map(p => (
+          <option key={p.id} value={p.id}>{p.label}</option>
+        ))}
+      </select>
+
+      {provider.id === 'openai' && (
+        <input
+          type="url"
+          value={value.baseUrl}
+          onChange={(e) => onChange({ ...value, baseUrl: e.target.value })}
+          placeholder={provider.defaultBaseUrl}
+          className={`${inputClass} font-mono mb-2`}
+        />
+      )}
+
+      {provider.needsImage && (
+        <>
+          <input
+            type="text"
+            value={value.model}
+            onChange={(e) => onChange({ ...value, model: e.target.value })}
+            placeholder={`模型，如 ${provider.defaultModel}`}
+            className={`${inputClass} font-mono mb-2`}
+          />
+          <input
+            type="password"
+            value={value.apiKey}
+            onChange={(e) => onChange({ ...value, apiKey: e.target.value })}
+            placeholder={provider.id === 'openai' ? 'API Key (本地服务可留空)' : 'Enter your API Key'}
+            className={`${inputClass} mb-2`}
+          />
+          <div className="flex gap-1 mb-2">
+            {NAMING_LANGUAGES.map(({ id, label }) => (
+              <button
+                key={id}
+                type="button"
+                onClick={() => onChange({ ...value, language: id })}
+                className={`flex-1 text-xs py-1.5 rounded-lg transition-colors ${
+                  value.language === id ? 'bg-xhs-dark text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <details className="text-xs text-gray-500">
+            <summary className="cursor-pointer select-none">自定义提示词</summary>
+            <textarea
+              value={value.promptTemplate || DEFAULT_PROMPT_TEMPLATE}
+              onChange={(e) => onChange({ ...value, promptTemplate: e.target.value === DEFAULT_PROMPT_TEMPLATE ? '' : e.target.value })}
+              rows={6}
+              className="w-full bg-gray-100 rounded-lg px-3 py-2 mt-2 text-xs font-mono outline-none border border-transparent focus:border-xhs-red resize-y"
+            />
+            <div className="flex flex-wrap items-center gap-1 mt-1">
+              {PROMPT_PLACEHOLDERS.map(({ token, label }) => (
+                <code key={token} className="bg-gray-100 px-1.5 py-0.5 rounded" title={label}>{token}</code>
+              ))}
+              {value.promptTemplate && (
+                <button type="button" onClick={() => onChange({ ...value, promptTemplate: '' })} className="ml-auto text-blue-500 hover:underline">
+                  恢复默认
+                </button>
+              )}
+            </div>
+            <p className="mt-1 text-gray-400">JSON 返回格式会自动附加在提示词之后，名称会按所选语言校验。</p>
+          </details>
+        </>
+      )}
+
+      <p className="text-xs text-gray-400 mt-1">
+        {provider.id === 'gemini' && (
+          <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noreferrer" className="text-blue-500 hover:underline">
+            获取免费 API Key &rarr;
+          </a>
+        )}
+        {provider.id === 'openai' && '支持任意 /chat/completions 视觉模型接口。本地服务需允许浏览器跨域访问 (CORS)。'}
+        {provider.id === 'heuristic' && '不调用任何模型，按笔记标题加序号命名。'}
+      </p>
+    </div>
+  );
+};
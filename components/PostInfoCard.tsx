@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { Heart, Star, MessageCircle, Share2, MapPin, ExternalLink, FileJson, FileText, ChevronDown, ChevronUp } from 'lucide-react';
+import { XhsPost } from '../types';
+
+interface PostInfoCardProps {
+  post: XhsPost;
+  savedBefore?: number; // First saved time when the note was already in history
+  onExport: (post: XhsPost, format: 'json' | 'md') => void;
+}
+
+const formatCount = (value: number | null) => {
+  if (value === null) return '-';
+  return value >= 10000 ? `${(value / 10000).toFixed(1).replace(/\.0$/, '')}万` : String(value);
+};
+
+export const PostInfoCard: React.FC<PostInfoCardProps> = ({ post, savedBefore, onExport }) => {
+  const [expanded, setExpanded] = useState(false);
+
+  const stats = [
+    { icon: Heart, value: post.stats.likes, label: '点赞' },
+    { icon: Star, value: post.stats.collects, label: '收藏' },
+    { icon: MessageCircle, value: post.stats.comments, label: '评论' },
+    { icon: Share2, value: post.stats.shares, label: '分享' },
+  ];
+
+  return (
+    <div className="mb-6 bg-white p-4 rounded-xl shadow-sm border border-gray-50">
+      <div className="flex items-center gap-3">
+        <img
+          src={post.authorAvatar}
+          alt="avatar"
+          className="w-10 h-10 rounded-full"
+          referrerPolicy="no-referrer"
+        />
+        <div className="flex-1 min-w-0">
+          <h3 className="font-medium text-xhs-dark truncate">{post.title}</h3>
+          <p className="text-xs text-gray-400">@{post.author}</p>
+          {savedBefore && (
+            <p className="text-xs text-amber-500 mt-0.5">
+              该笔记已于 {new Date(savedBefore).toLocaleDateString('zh-CN')} 保存过
+            </p>
+          )}
+        </div>
+        <div className="text-xs font-medium px-3 py-1 bg-gray-100 rounded-full text-gray-500">
+          {post.noteType === 'video' ? '视频' : `${post.images.length} 张图片`}
+        </div>
+      </div>
+
+      {/* Body text */}
+      {post.desc && (
+        <div className="mt-3">
+          <p className={`text-sm text-gray-600 whitespace-pre-line ${expanded ? '' : 'line-clamp-3'}`}>
+            {post.desc}
+          </p>
+          <button
+            onClick={() => setExpanded(!expanded)}
+            className="text-xs text-gray-400 hover:text-xhs-dark mt-1 flex items-center gap-0.5"
+          >
+            {expanded ? <><ChevronUp size={12} />收起</> : <><ChevronDown size={12} />展开全文</>}
+          </button>
+        </div>
+      )}
+
+      {/* Hashtags */}
+      {post.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1.5 mt-3">
+          {post.tags.map(tag => (
+            <span key={tag} className="text-xs text-blue-600 bg-blue-50 px-2 py-0.5 rounded-full">#{tag}</span>
+          ))}
+        </div>
+      )}
+
+      {/* Stats, location and exports */}
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 mt-3 pt-3 border-t border-gray-50 text-xs text-gray-400">
+        {stats.map(({ icon: Icon, value, label }) => (
+          <span key={label} className="flex items-center gap-1 tabular-nums" title={label}>
+            <Icon size={12} />
+            {formatCount(value)}
+          </span>
+        ))}
+        {post.ipLocation && (
+          <span className="flex items-center gap-1">
+            <MapPin size={12} />
+            {post.ipLocation}
+          </span>
+        )}
+        <div className="flex items-center gap-1 ml-auto">
+          <a
+            href={post.noteUrl}
+            target="_blank"
+            rel="noreferrer"
+            className="p-1.5 hover:text-xhs-dark transition-colors"
+            title="打开原笔记"
+          >
+            <ExternalLink size={14} />
+          </a>
+          <button onClick={() => onExport(post, 'json')} className="p-1.5 hover:text-xhs-dark transition-colors" title="导出 JSON">
+            <FileJson size={14} />
+          </button>
+          <button onClick={() => onExport(post, 'md')} className="p-1.5 hover:text-xhs-dark transition-colors" title="导出 Markdown">
+            <FileText size={14} />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
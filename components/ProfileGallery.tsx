@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { Check, X, Heart, Play, ChevronLeft, ChevronRight, ListPlus } from 'lucide-react';
+import { XhsProfile } from '../types';
+
+interface ProfileGalleryProps {
+  profile: XhsProfile;
+  queuedUrls: Set<string>; // Notes already sent to the download queue
+  onAddToQueue: (noteUrls: string[]) => void;
+  onClose: () => void;
+  isBusy: boolean;
+}
+
+const PAGE_SIZE = 12;
+
+export const ProfileGallery: React.FC<ProfileGalleryProps> = ({ profile, queuedUrls, onAddToQueue, onClose, isBusy }) => {
+  const [page, setPage] = useState(0);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const pageCount = Math.max(1, Math.ceil(profile.notes.length / PAGE_SIZE));
+  const pageNotes = profile.notes.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+  const selectable = pageNotes.filter(note => !queuedUrls.has(note.noteUrl));
+  const pageSelected = selectable.length > 0 && selectable.every(note => selected.has(note.id));
+
+  const toggle = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelected(next);
+  };
+
+  const togglePage = () => {
+    const next = new Set(selected);
+    selectable.forEach(note => (pageSelected ? next.delete(note.id) : next.add(note.id)));
+    setSelected(next);
+  };
+
+  const addSelected = () => {
+    onAddToQueue(profile.notes.filter(note => selected.has(note.id)).map(note => note.noteUrl));
+    setSelected(new Set());
+  };
+
+  return (
+    <div className="mb-8 bg-white p-4 rounded-xl shadow-sm border border-gray-50">
+      <div className="flex items-center gap-3 mb-4">
+        {profile.avatar && (
+          <img src={profile.avatar} alt="avatar" className="w-12 h-12 rounded-full" referrerPolicy="no-referrer" />
+        )}
+        <div className="flex-1 min-w-0">
+          <h3 className="font-bold text-xhs-dark truncate">{profile.nickname}</h3>
+          <p className="text-xs text-gray-400 line-clamp-1">{profile.desc || `${profile.notes.length} 篇笔记`}</p>
+        </div>
+        <button onClick={onClose} className="p-1.5 text-gray-400 hover:text-xhs-dark" title="关闭">
+          <X size={18} />
+        </button>
+      </div>
+
+      {profile.notes.length === 0 ? (
+        <p className="text-sm text-gray-400 text-center py-8">主页中没有可读取的笔记</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-2">
+            {pageNotes.map(note => {
+              const queued = queuedUrls.has(note.noteUrl);
+              const isSelected = selected.has(note.id);
+              return (
+                <button
+                  key={note.id}
+                  onClick={() => !queued && toggle(note.id)}
+                  disabled={queued}
+                  className={`relative text-left rounded-lg overflow-hidden transition-all ${
+                    isSelected ? 'ring-4 ring-xhs-red' : ''
+                  } ${queued ? 'opacity-50 cursor-default' : ''}`}
+                >
+                  <div className="relative aspect-[3/4] bg-gray-100">
+                    {note.cover && (
+                      <img src={note.cover} alt={note.title} className="w-full h-full object-cover" loading="lazy" referrerPolicy="no-referrer" />
+                    )}
+                    {note.noteType === 'video' && (
+                      <div className="absolute top-1.5 left-1.5 w-5 h-5 rounded-full bg-black/50 flex items-center justify-center">
+                        <Play size={10} className="text-white ml-0.5" fill="currentColor" />
+                      </div>
+                    )}
+                    <div className={`absolute top-1.5 right-1.5 w-5 h-5 rounded-full flex items-center justify-center border-2 ${
+                      isSelected || queued ? 'bg-xhs-red border-xhs-red' : 'bg-black/30 border-white'
+                    }`}>
+                      {(isSelected || queued) && <Check size={12} className="text-white" />}
+                    </div>
+                    {queued && (
+                      <div className="absolute inset-x-0 bottom-0 bg-black/60 text-white text-[10px] text-center py-0.5">已加入</div>
+                    )}
+                  </div>
+                  <div className="p-1.5">
+                    <p className="text-xs text-xhs-dark line-clamp-2 leading-snug">{note.title}</p>
+                    {note.likes !== null && (
+                      <p className="text-[10px] text-gray-400 flex items-center gap-0.5 mt-0.5 tabular-nums">
+                        <Heart size={10} />
+                        {note.likes}
+                      </p>
+                    )}
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+
+          <div className="flex items-center justify-between mt-4 gap-2">
+            <div className="flex items-center gap-1 text-xs text-gray-500">
+              <button onClick={() => setPage(page - 1)} disabled={page === 0} className="p-1.5 disabled:opacity-30">
+                <ChevronLeft size={16} />
+              </button>
+              <span className="tabular-nums">{page + 1} / {pageCount}</span>
+              <button onClick={() => setPage(page + 1)} disabled={page >= pageCount - 1} className="p-1.5 disabled:opacity-30">
+                <ChevronRight size={16} />
+              </button>
+            </div>
+            <button onClick={togglePage} disabled={selectable.length === 0} className="text-xs text-gray-500 hover:text-xhs-dark disabled:opacity-30">
+              {pageSelected ? '取消本页' : '选择本页'}
+            </button>
+            <button
+              onClick={addSelected}
+              disabled={selected.size === 0 || isBusy}
+              className="flex items-center gap-1 bg-xhs-red text-white text-xs font-bold px-3 py-2 rounded-full disabled:bg-gray-300 transition-colors"
+            >
+              <ListPlus size={14} />
+              加入下载 ({selected.size})
+            </button>
+          </div>
+          <p className={`text-[11px] mt-2 text-center ${profile.hasMore ? 'text-amber-600' : 'text-gray-300'}`}>
+            {profile.hasMore
+              ? `该博主还有更多笔记：小红书的翻页接口需要签名，目前只能读取主页首屏的 ${profile.notes.length} 篇`
+              : '仅能读取主页首屏加载的笔记'}
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { Activity } from 'lucide-react';
+import { proxyPool, isValidProxyTemplate } from '../services/proxyPool';
+
+interface ProxySettingsProps {
+  value: string; // Custom proxy templates, one per line
+  onChange: (value: string) => void;
+}
+
+export const ProxySettings: React.FC<ProxySettingsProps> = ({ value, onChange }) => {
+  // Snapshot taken when the settings open; health only changes while fetching
+  const [snapshot] = useState(() => proxyPool.getSnapshot());
+
+  const invalidLines = value
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !isValidProxyTemplate(line));
+
+  return (
+    <div className="mb-4">
+      <h4 className="text-sm font-bold text-xhs-dark mb-1">自定义代理</h4>
+      <p className="text-xs text-gray-400 mb-2">
+        每行一个地址模板，<code>{'{url}'}</code> 会被替换为编码后的目标链接。自定义代理优先使用。
+      </p>
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="https://proxy.example.com/?url={url}"
+        rows={3}
+        className="w-full bg-gray-100 rounded-lg px-3 py-2 text-xs font-mono outline-none border border-transparent focus:border-xhs-red resize-none"
+      />
+      {invalidLines.length > 0 && (
+        <p className="text-xs text-red-500 mt-1">
+          {invalidLines.length} 行格式无效 (需以 http(s):// 开头并包含 {'{url}'})，将被忽略
+        </p>
+      )}
+
+      <div className="mt-3 space-y-1">
+        {snapshot.map(proxy => {
+          const { successes, failures, avgLatency, cooldownUntil } = proxy.health;
+          const coolingDown = cooldownUntil > Date.now();
+          return (
+            <div key={proxy.id} className="flex items-center gap-2 text-[11px] text-gray-500">
+              <Activity size={10} className={coolingDown ? 'text-red-400' : successes > 0 ? 'text-green-500' : 'text-gray-300'} />
+              <span className="flex-1 truncate">{proxy.label}</span>
+              <span className="tabular-nums">{successes}✓ {failures}✗</span>
+              <span className="tabular-nums w-14 text-right">{avgLatency ? `${avgLatency}ms` : '-'}</span>
+              {coolingDown && <span className="text-red-400">冷却中</span>}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -1,13 +1,19 @@
 import React, { useState, useEffect } from 'react';
-import { Search, Link as LinkIcon, X } from 'lucide-react';
+import { Search, Link as LinkIcon, X, ListPlus } from 'lucide-react';
+import { extractXhsLinks } from '../services/xhsService';
 
 interface SearchBarProps {
   onSearch: (url: string) => void;
+  onBatchSearch: (urls: string[]) => void;
   isLoading: boolean;
 }
 
-export const SearchBar: React.FC<SearchBarProps> = ({ onSearch, isLoading }) => {
+export const SearchBar: React.FC<SearchBarProps> = ({ onSearch, onBatchSearch, isLoading }) => {
   const [url, setUrl] = useState('');
+  const [isBatch, setIsBatch] = useState(false);
+  const [batchText, setBatchText] = useState('');
+
+  const batchLinks = extractXhsLinks(batchText);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -16,9 +22,22 @@ export const SearchBar: React.FC<SearchBarProps> = ({ onSearch, isLoading }) =>
     }
   };
 
+  const handleBatchSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (batchLinks.length > 0) {
+      onBatchSearch(batchLinks);
+      setBatchText('');
+    }
+  };
+
   const handlePaste = async () => {
     try {
       const text = await navigator.clipboard.readText();
+      if (isBatch) {
+        // Append so several clipboard pastes can build up one batch
+        setBatchText(prev => (prev ? `${prev}\n${text}` : text));
+        return;
+      }
       setUrl(text);
       // Auto submit if it looks like a link
       if (text.includes('http')) {
@@ -33,57 +52,96 @@ export const SearchBar: React.FC<SearchBarProps> = ({ onSearch, isLoading }) =>
 
   return (
     <div className="w-full max-w-xl mx-auto px-4 sticky top-16 z-30">
-      <form 
-        onSubmit={handleSubmit}
-        className={`relative flex items-center bg-white rounded-full shadow-[0_8px_30px_rgb(0,0,0,0.08)] transition-all duration-300 ${isLoading ? 'opacity-80' : ''}`}
-      >
-        <div className="pl-4 text-xhs-gray">
-          <LinkIcon size={20} />
-        </div>
-        
-        <input
-          type="text"
-          value={url}
-          onChange={(e) => setUrl(e.target.value)}
-          placeholder="粘贴小红书笔记链接..."
-          className="flex-1 min-w-0 py-4 px-3 bg-transparent border-none outline-none text-xhs-dark placeholder-gray-400 text-base"
-          disabled={isLoading}
-        />
+      {isBatch ? (
+        <form
+          onSubmit={handleBatchSubmit}
+          className={`relative bg-white rounded-3xl shadow-[0_8px_30px_rgb(0,0,0,0.08)] p-3 transition-all duration-300 ${isLoading ? 'opacity-80' : ''}`}
+        >
+          <textarea
+            value={batchText}
+            onChange={(e) => setBatchText(e.target.value)}
+            placeholder="粘贴多条小红书分享文案或链接，自动识别全部链接..."
+            rows={5}
+            className="w-full resize-none bg-transparent border-none outline-none text-xhs-dark placeholder-gray-400 text-sm px-2 py-1"
+            disabled={isLoading}
+          />
+          <div className="flex items-center justify-between pl-2">
+            <span className="text-xs text-gray-400">已识别 {batchLinks.length} 条链接</span>
+            <button
+              type="submit"
+              disabled={isLoading || batchLinks.length === 0}
+              className={`py-2 px-5 rounded-full font-medium text-white text-sm transition-all transform active:scale-95 ${
+                isLoading || batchLinks.length === 0
+                  ? 'bg-gray-300 cursor-not-allowed'
+                  : 'bg-xhs-red hover:bg-red-600 shadow-md'
+              }`}
+            >
+              {isLoading ? '处理中' : '加入队列'}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <form
+          onSubmit={handleSubmit}
+          className={`relative flex items-center bg-white rounded-full shadow-[0_8px_30px_rgb(0,0,0,0.08)] transition-all duration-300 ${isLoading ? 'opacity-80' : ''}`}
+        >
+          <div className="pl-4 text-xhs-gray">
+            <LinkIcon size={20} />
+          </div>
+
+          <input
+            type="text"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="粘贴小红书笔记链接..."
+            className="flex-1 min-w-0 py-4 px-3 bg-transparent border-none outline-none text-xhs-dark placeholder-gray-400 text-base"
+            disabled={isLoading}
+          />
 
-        {url && (
-          <button 
-            type="button"
-            onClick={clearInput}
-            className="p-2 text-gray-400 hover:text-xhs-dark transition-colors"
+          {url && (
+            <button
+              type="button"
+              onClick={clearInput}
+              className="p-2 text-gray-400 hover:text-xhs-dark transition-colors"
+            >
+              <X size={16} />
+            </button>
+          )}
+
+          <button
+            type="submit"
+            disabled={isLoading || !url.trim()}
+            className={`mr-1.5 py-2.5 px-6 rounded-full font-medium text-white transition-all transform active:scale-95 ${
+              isLoading || !url.trim()
+                ? 'bg-gray-300 cursor-not-allowed'
+                : 'bg-xhs-red hover:bg-red-600 shadow-md'
+            }`}
           >
-            <X size={16} />
+            {isLoading ? '解析中' : '获取'}
           </button>
-        )}
-
-        <button
-          type="submit"
-          disabled={isLoading || !url.trim()}
-          className={`mr-1.5 py-2.5 px-6 rounded-full font-medium text-white transition-all transform active:scale-95 ${
-            isLoading || !url.trim() 
-              ? 'bg-gray-300 cursor-not-allowed' 
-              : 'bg-xhs-red hover:bg-red-600 shadow-md'
-          }`}
-        >
-          {isLoading ? '解析中' : '获取'}
-        </button>
-      </form>
+        </form>
+      )}
 
       {/* Helper text/Quick Paste */}
-      {!url && !isLoading && (
-        <div className="mt-3 text-center">
-           <button 
-            onClick={handlePaste}
-            className="text-xs text-xhs-red font-medium bg-red-50 px-3 py-1 rounded-full active:bg-red-100"
-           >
-             📋 点击粘贴剪贴板链接
-           </button>
+      {!isLoading && (
+        <div className="mt-3 flex items-center justify-center gap-2">
+          {(isBatch || !url) && (
+            <button
+              onClick={handlePaste}
+              className="text-xs text-xhs-red font-medium bg-red-50 px-3 py-1 rounded-full active:bg-red-100"
+            >
+              📋 点击粘贴剪贴板链接
+            </button>
+          )}
+          <button
+            onClick={() => setIsBatch(!isBatch)}
+            className="text-xs text-gray-500 font-medium bg-gray-100 px-3 py-1 rounded-full active:bg-gray-200 flex items-center gap-1"
+          >
+            <ListPlus size={12} />
+            {isBatch ? '单条模式' : '批量模式'}
+          </button>
         </div>
       )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,36 @@
+// RedSaver core as a library: link resolution, note parsing, media fetching,
+// naming and packaging, with no React and no DOM. Everything here runs in the
+// browser and in Node 18+ (global fetch, Blob, btoa). IndexedDB-backed caches
+// are skipped where IndexedDB doesn't exist.
+//
+// In the browser, use createXhsClient(proxyPool) (CORS proxies). Elsewhere,
+// createXhsClient(createProxyPool(DIRECT_PROXIES)) fetches Xiaohongshu directly.
+
+export * from '../types';
+
+export { resolveXhsUrl, findXhsUrls, canonicalizeXhsUrl } from '../services/xhsUrlResolver';
+export type { ResolvedXhsUrl, ShortLinkExpander } from '../services/xhsUrlResolver';
+export { createXhsClient } from '../services/xhsService';
+export type { XhsClient, FetchBlobOptions, FetchedMedia } from '../services/xhsService';
+export { createProxyPool, proxyPool, BUILTIN_PROXIES, DIRECT_PROXIES, parseCustomProxies } from '../services/proxyPool';
+export type { ProxyPool, ProxyDefinition, ProxyKind } from '../services/proxyPool';
+export { XhsParseError, isXhsParseError, describeXhsError } from '../services/xhsErrors';
+export type { XhsErrorCode } from '../services/xhsErrors';
+
+export { extractNoteFromHtml, buildPostFromNote } from '../services/noteExtractor';
+export { extractProfileFromHtml } from '../services/profileExtractor';
+
+export { generateSmartNames } from '../services/namingService';
+export type { SmartNameOptions } from '../services/namingService';
+export { NAMING_PROVIDERS, getNamingProvider, isNamingConfigured, DEFAULT_PROMPT_TEMPLATE } from '../services/namingProviders';
+export type { NamingConfig, NamingProviderId } from '../services/namingProviders';
+export { NAMING_LANGUAGES } from '../services/nameValidator';
+export type { NamingLanguage } from '../services/nameValidator';
+
+export { DEFAULT_FILENAME_TEMPLATE, renderFilename, createUniqueNamer, sanitizeFilenamePart, getExtFromMime, buildPostFolderPath } from '../services/filenameTemplate';
+export { buildMetadataFiles } from '../services/metadataExport';
+export { buildPostsZip } from '../services/zipService';
+export type { ZipEntry, ZipGroup } from '../services/zipService';
+
+export { fetchPostFiles, fetchPostsFiles } from './pipeline';
+export type { FetchPostFilesOptions, PostFiles, FetchedImage } from './pipeline';
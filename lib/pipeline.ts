@@ -0,0 +1,128 @@
+import { XhsPost, XhsImage, DownloadInfo, ImageDownloadState } from '../types';
+import { XhsClient, FetchedMedia } from '../services/xhsService';
+import { ZipEntry } from '../services/zipService';
+import { createDownloadManager, DownloadManager } from '../services/downloadManager';
+import { DEFAULT_FILENAME_TEMPLATE, renderFilename, createUniqueNamer, getExtFromMime } from '../services/filenameTemplate';
+
+// The download half of the pipeline without any UI: fetch every image of a
+// post (original first, preview as fallback), Live Photo clips included, and
+// name the files with the filename template. The app and the CLI both run
+// their downloads through here; the hooks carry what only the app needs.
+
+export interface FetchedImage extends FetchedMedia {
+  source: DownloadInfo['source'];
+}
+
+export interface FetchPostFilesOptions {
+  filenameTemplate?: string;
+  concurrency?: number;
+  imageIds?: Set<string>; // Subset to fetch; all images by default
+  onImageDone?: (imageId: string, error?: string) => void;
+  onUpdate?: (imageId: string, state: ImageDownloadState) => void; // Every state change, byte progress included
+  onStart?: (manager: DownloadManager) => void; // Pause, resume and cancel for the running batch
+  // Inspects or converts an image's own file (not a Live Photo clip) before it is named
+  prepareFile?: (image: XhsImage, fetched: FetchedImage) => Promise<Blob>;
+  // Takes each image's files as soon as they are ready; they are then left out of the result
+  onFiles?: (post: XhsPost, image: XhsImage, files: ZipEntry[]) => Promise<void>;
+}
+
+export interface PostFiles {
+  post: XhsPost;
+  files: ZipEntry[];
+  failed: { imageId: string; error: string }[];
+  cancelled: string[];
+}
+
+// Several posts as one batch: shared concurrency, one pause/cancel, and file
+// names unique across the batch (loose files may all land in one folder)
+export const fetchPostsFiles = async (
+  client: XhsClient,
+  posts: XhsPost[],
+  {
+    filenameTemplate = DEFAULT_FILENAME_TEMPLATE,
+    concurrency = 2,
+    imageIds,
+    onImageDone,
+    onUpdate,
+    onStart,
+    prepareFile,
+    onFiles,
+  }: FetchPostFilesOptions = {}
+): Promise<PostFiles[]> => {
+  const uniqueName = createUniqueNamer();
+  const results = new Map(posts.map(post => [post.id, { post, files: [], failed: [], cancelled: [] } as PostFiles]));
+  const owners = new Map<string, string>(); // Image id -> post id
+  const items = posts.flatMap(post =>
+    post.images.filter(img => !imageIds || imageIds.has(img.id)).map(img => ({ post, img }))
+  );
+  items.forEach(({ post, img }) => owners.set(img.id, post.id));
+
+  const manager = createDownloadManager({
+    concurrency,
+    onUpdate: (id, state) => {
+      onUpdate?.(id, state);
+      const result = results.get(owners.get(id)!)!;
+      if (state.status === 'failed') {
+        result.failed.push({ imageId: id, error: state.error || 'unknown error' });
+        onImageDone?.(id, state.error);
+      } else if (state.status === 'done') {
+        onImageDone?.(id);
+      } else if (state.status === 'cancelled') {
+        result.cancelled.push(id);
+      }
+    },
+  });
+  onStart?.(manager);
+
+  await manager.run(items.map(({ post, img }) => ({
+    id: img.id,
+    run: async ({ signal, onProgress, waitIfPaused }) => {
+      const fetchOptions = { signal, onProgress, waitIfPaused };
+      let fetched: FetchedImage;
+      // Videos have no fallback: their preview is only the cover image
+      try {
+        fetched = { ...await client.fetchMedia(img.url, { ...fetchOptions, kind: img.kind === 'video' ? 'video' : 'image' }), source: 'original' };
+      } catch (hqError) {
+        if (img.kind === 'video' || signal.aborted) throw hqError;
+        console.warn(`HQ download failed for ${img.id}, trying fallback...`);
+        fetched = { ...await client.fetchMedia(img.previewUrl, fetchOptions), source: 'preview' };
+      }
+      const blob = prepareFile ? await prepareFile(img, fetched) : fetched.blob;
+
+      // The extension follows the real type, which export settings may have changed
+      const ext = getExtFromMime(blob.type, img.kind);
+      const fileName = uniqueName(renderFilename(filenameTemplate, { post, image: img, index: post.images.indexOf(img), ext }));
+      const imageFiles: ZipEntry[] = [{ fileName, blob, imageId: img.id }];
+
+      // Live Photos: the motion clip shares the still's base name
+      if (img.kind === 'live' && img.videoUrl) {
+        const motionBlob = await client.fetchBlobWithRetry(img.videoUrl, {
+          kind: 'video',
+          signal,
+          waitIfPaused,
+          // Motion bytes continue the still's progress; the combined size is unknown upfront
+          onProgress: (loaded) => onProgress(fetched.blob.size + loaded, null),
+        });
+        const motionName = `${fileName.slice(0, fileName.length - ext.length - 1)}.${getExtFromMime(motionBlob.type, 'video')}`;
+        imageFiles.push({ fileName: uniqueName(motionName), blob: motionBlob, imageId: img.id });
+      }
+
+      if (onFiles) await onFiles(post, img, imageFiles);
+      else results.get(post.id)!.files.push(...imageFiles);
+    },
+  })));
+
+  // Keep each note's order regardless of which download finished first
+  return posts.map(post => {
+    const result = results.get(post.id)!;
+    const order = new Map(post.images.map((img, i) => [img.id, i]));
+    result.files.sort((a, b) => order.get(a.imageId!)! - order.get(b.imageId!)!);
+    return result;
+  });
+};
+
+export const fetchPostFiles = async (
+  client: XhsClient,
+  post: XhsPost,
+  options: FetchPostFilesOptions = {}
+): Promise<PostFiles> => (await fetchPostsFiles(client, [post], options))[0];
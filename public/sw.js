@@ -0,0 +1,82 @@
+// Service worker: keeps the app shell (HTML, built assets, Tailwind/fonts from
+// their CDNs) in Cache Storage so the installed app starts offline. Proxy
+// calls (/api/*) and note/media fetches always go to the network.
+
+const CACHE_NAME = 'redsaver-shell-v1';
+
+const SHELL_URLS = ['./', './manifest.webmanifest', './icon.svg'];
+
+// Third-party hosts the shell needs to render (styles and fonts)
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+
+// The built index.html names its hashed bundles; cache those too so the very
+// first offline start works, not only the second
+const precacheShell = async () => {
+  const cache = await caches.open(CACHE_NAME);
+  await cache.addAll(SHELL_URLS);
+  const html = await (await cache.match('./')).text();
+  const assets = Array.from(html.matchAll(/(?:src|href)="(\.?\/?assets\/[^"]+)"/g), match => match[1]);
+  await Promise.all(assets.map(asset => cache.add(asset).catch(() => undefined)));
+};
+
+self.addEventListener('install', event => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE_NAME).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const putInCache = async (request, response) => {
+  // Opaque (no-cors) CDN responses report status 0 but are still usable
+  if (response.ok || response.type === 'opaque') {
+    const cache = await caches.open(CACHE_NAME);
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+// Pages: fresh when online, cached shell when not (share-target launches carry a query string)
+const networkFirst = async request => {
+  try {
+    return await putInCache(new URL('./', self.registration.scope).href, await fetch(request));
+  } catch (err) {
+    const cached = await caches.match('./');
+    if (cached) return cached;
+    throw err;
+  }
+};
+
+// Hashed bundles never change; CDN files are refreshed in the background
+const cacheFirst = async (request, revalidate) => {
+  const cached = await caches.match(request);
+  if (cached) {
+    if (revalidate) fetch(request).then(response => putInCache(request, response)).catch(() => undefined);
+    return cached;
+  }
+  return putInCache(request, await fetch(request));
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (url.origin === self.location.origin) {
+    if (url.pathname.includes('/api/')) return;
+    if (request.mode === 'navigate') {
+      event.respondWith(networkFirst(request));
+    } else {
+      event.respondWith(cacheFirst(request, !url.pathname.includes('/assets/')));
+    }
+    return;
+  }
+
+  if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(cacheFirst(request, true));
+  }
+});
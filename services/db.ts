@@ -0,0 +1,83 @@
+// Thin promise wrapper around the app's IndexedDB database.
+// Every store is declared here so schema upgrades live in one place.
+
+const DB_NAME = 'redsaver';
+const DB_VERSION = 3;
+
+export const STORES = {
+  history: 'history',     // One record per parsed note, keyed by note id
+  downloads: 'downloads', // One record per downloaded image, keyed by image id
+  aiNames: 'aiNames',     // Cached AI names, keyed by image id (the note's fileId)
+  handles: 'handles',     // File System Access handles (not serializable to localStorage), keyed by id
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const isIndexedDbAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+export const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (!isIndexedDbAvailable()) {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORES.history)) {
+        const history = db.createObjectStore(STORES.history, { keyPath: 'id' });
+        history.createIndex('savedAt', 'savedAt');
+      }
+      if (!db.objectStoreNames.contains(STORES.downloads)) {
+        const downloads = db.createObjectStore(STORES.downloads, { keyPath: 'imageId' });
+        downloads.createIndex('postId', 'postId');
+      }
+      if (!db.objectStoreNames.contains(STORES.aiNames)) {
+        db.createObjectStore(STORES.aiNames, { keyPath: 'imageId' });
+      }
+      if (!db.objectStoreNames.contains(STORES.handles)) {
+        db.createObjectStore(STORES.handles, { keyPath: 'id' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      // Allow a later call to retry (e.g. after the user leaves private mode)
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs `work` inside one transaction and resolves with its result once the
+// transaction has committed, so callers never observe half-written state.
+export const withStores = async <T>(
+  storeNames: StoreName[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => Promise<T> | T
+): Promise<T> => {
+  const db = await openDb();
+  const tx = db.transaction(storeNames, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+  const result = await work(tx);
+  await done;
+  return result;
+};
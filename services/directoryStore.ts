@@ -0,0 +1,125 @@
+import { STORES, withStores, promisifyRequest } from './db';
+
+// "Save to folder" download mode: the File System Access API writes straight
+// into a directory the user picked once. The handle survives reloads in
+// IndexedDB, but the browser asks for write permission again each session.
+
+export type ConflictPolicy = 'skip' | 'rename';
+
+export const CONFLICT_POLICIES: { id: ConflictPolicy; label: string }[] = [
+  { id: 'skip', label: '跳过已有文件' },
+  { id: 'rename', label: '自动重命名' },
+];
+
+export type WriteStatus = 'written' | 'skipped';
+
+// Permission methods are not in TypeScript's DOM lib yet
+interface PermissionedHandle extends FileSystemDirectoryHandle {
+  queryPermission(descriptor: { mode: 'readwrite' }): Promise<PermissionState>;
+  requestPermission(descriptor: { mode: 'readwrite' }): Promise<PermissionState>;
+}
+
+// Nor is the picker itself
+type PickerWindow = Window & {
+  showDirectoryPicker?: (options?: { id?: string; mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+};
+
+const HANDLE_ID = 'downloadDirectory';
+
+// Chromium desktop only; Firefox, Safari and mobile browsers keep the ZIP / file download modes
+export const isDirectoryPickerAvailable = (): boolean =>
+  typeof window !== 'undefined' && typeof (window as PickerWindow).showDirectoryPicker === 'function';
+
+export const getSavedDirectory = (): Promise<FileSystemDirectoryHandle | null> =>
+  withStores([STORES.handles], 'readonly', async (tx) => {
+    const record = await promisifyRequest<{ id: string; handle: FileSystemDirectoryHandle } | undefined>(
+      tx.objectStore(STORES.handles).get(HANDLE_ID)
+    );
+    return record?.handle ?? null;
+  });
+
+const saveDirectory = (handle: FileSystemDirectoryHandle): Promise<void> =>
+  withStores([STORES.handles], 'readwrite', async (tx) => {
+    await promisifyRequest(tx.objectStore(STORES.handles).put({ id: HANDLE_ID, handle }));
+  });
+
+export const forgetDirectory = (): Promise<void> =>
+  withStores([STORES.handles], 'readwrite', async (tx) => {
+    await promisifyRequest(tx.objectStore(STORES.handles).delete(HANDLE_ID));
+  });
+
+// Opens the picker and remembers the choice. Resolves null if the user closes the dialog.
+export const pickDirectory = async (): Promise<FileSystemDirectoryHandle | null> => {
+  const picker = window as PickerWindow;
+  if (!picker.showDirectoryPicker) throw new Error('This browser cannot save to a folder');
+  try {
+    const handle = await picker.showDirectoryPicker({ id: 'redsaver', mode: 'readwrite' });
+    await saveDirectory(handle);
+    return handle;
+  } catch (err: any) {
+    if (err?.name === 'AbortError') return null;
+    throw err;
+  }
+};
+
+// Must run inside a user gesture the first time in a session, or the prompt is refused
+export const ensureWritePermission = async (handle: FileSystemDirectoryHandle): Promise<boolean> => {
+  const permissioned = handle as PermissionedHandle;
+  if ((await permissioned.queryPermission({ mode: 'readwrite' })) === 'granted') return true;
+  return (await permissioned.requestPermission({ mode: 'readwrite' })) === 'granted';
+};
+
+const fileExists = async (dir: FileSystemDirectoryHandle, name: string): Promise<boolean> => {
+  try {
+    await dir.getFileHandle(name);
+    return true;
+  } catch (err: any) {
+    if (err?.name === 'NotFoundError') return false;
+    throw err;
+  }
+};
+
+// First free "name (n).ext" in the directory
+const findFreeName = async (dir: FileSystemDirectoryHandle, fileName: string): Promise<string> => {
+  const dot = fileName.lastIndexOf('.');
+  const base = dot > 0 ? fileName.slice(0, dot) : fileName;
+  const ext = dot > 0 ? fileName.slice(dot) : '';
+  let candidate = fileName;
+  for (let n = 2; await fileExists(dir, candidate); n++) {
+    candidate = `${base} (${n})${ext}`;
+  }
+  return candidate;
+};
+
+// Writes one file under root/path, creating folders as needed. An existing
+// file is never overwritten: the policy decides between leaving it and
+// writing next to it under a new name.
+export const writeFileToDirectory = async (
+  root: FileSystemDirectoryHandle,
+  path: string[],
+  fileName: string,
+  blob: Blob,
+  policy: ConflictPolicy
+): Promise<WriteStatus> => {
+  let dir = root;
+  for (const segment of path) {
+    dir = await dir.getDirectoryHandle(segment, { create: true });
+  }
+
+  let name = fileName;
+  if (await fileExists(dir, name)) {
+    if (policy === 'skip') return 'skipped';
+    name = await findFreeName(dir, name);
+  }
+
+  const file = await dir.getFileHandle(name, { create: true });
+  const writable = await file.createWritable();
+  try {
+    await writable.write(blob);
+    await writable.close();
+  } catch (err) {
+    await writable.abort();
+    throw err;
+  }
+  return 'written';
+};
@@ -0,0 +1,124 @@
+import { ImageDownloadState } from '../types';
+
+// Runs download jobs with bounded concurrency, plus pause/resume and cancel.
+// Pausing holds workers between jobs and between streamed chunks, so a
+// paused download really stops pulling bytes. Cancel aborts in-flight
+// fetches through a shared AbortController.
+
+export interface DownloadJobContext {
+  signal: AbortSignal;
+  onProgress: (loaded: number, total: number | null) => void;
+  waitIfPaused: () => Promise<void>;
+}
+
+export interface DownloadJob {
+  id: string;
+  run: (context: DownloadJobContext) => Promise<void>;
+}
+
+export interface DownloadManagerOptions {
+  concurrency: number;
+  onUpdate: (id: string, state: ImageDownloadState) => void;
+}
+
+export interface DownloadSummary {
+  done: string[];
+  failed: string[];
+  cancelled: string[];
+}
+
+export const isAbortError = (err: any): boolean => err?.name === 'AbortError';
+
+export const createDownloadManager = ({ concurrency, onUpdate }: DownloadManagerOptions) => {
+  const controller = new AbortController();
+  let paused = false;
+  let resumeWaiters: (() => void)[] = [];
+
+  const waitIfPaused = (): Promise<void> => {
+    if (!paused || controller.signal.aborted) return Promise.resolve();
+    return new Promise(resolve => resumeWaiters.push(resolve));
+  };
+
+  const releaseWaiters = () => {
+    const waiters = resumeWaiters;
+    resumeWaiters = [];
+    waiters.forEach(resolve => resolve());
+  };
+
+  const pause = () => {
+    paused = true;
+  };
+
+  const resume = () => {
+    paused = false;
+    releaseWaiters();
+  };
+
+  const cancel = () => {
+    controller.abort();
+    // Wake paused workers so they notice the abort and exit
+    releaseWaiters();
+  };
+
+  const run = async (jobs: DownloadJob[]): Promise<DownloadSummary> => {
+    const summary: DownloadSummary = { done: [], failed: [], cancelled: [] };
+    const pending = [...jobs];
+
+    jobs.forEach(job => onUpdate(job.id, { status: 'queued', loaded: 0, total: null }));
+
+    const worker = async () => {
+      while (pending.length > 0) {
+        await waitIfPaused();
+        if (controller.signal.aborted) break;
+
+        const job = pending.shift()!;
+        let loaded = 0;
+        let total: number | null = null;
+        onUpdate(job.id, { status: 'downloading', loaded, total });
+
+        try {
+          await job.run({
+            signal: controller.signal,
+            onProgress: (nextLoaded, nextTotal) => {
+              loaded = nextLoaded;
+              total = nextTotal;
+              onUpdate(job.id, { status: 'downloading', loaded, total });
+            },
+            waitIfPaused,
+          });
+          summary.done.push(job.id);
+          onUpdate(job.id, { status: 'done', loaded, total: total ?? loaded });
+        } catch (err: any) {
+          if (controller.signal.aborted || isAbortError(err)) {
+            summary.cancelled.push(job.id);
+            onUpdate(job.id, { status: 'cancelled', loaded: 0, total: null });
+          } else {
+            summary.failed.push(job.id);
+            onUpdate(job.id, { status: 'failed', loaded, total, error: err?.message || String(err) });
+          }
+        }
+      }
+    };
+
+    const workerCount = Math.max(1, Math.min(concurrency, jobs.length));
+    await Promise.all(Array.from({ length: workerCount }, worker));
+
+    // Jobs never started because of a cancel
+    pending.forEach(job => {
+      summary.cancelled.push(job.id);
+      onUpdate(job.id, { status: 'cancelled', loaded: 0, total: null });
+    });
+
+    return summary;
+  };
+
+  return {
+    run,
+    pause,
+    resume,
+    cancel,
+    isPaused: () => paused,
+  };
+};
+
+export type DownloadManager = ReturnType<typeof createDownloadManager>;
@@ -0,0 +1,157 @@
+import { XhsPost, XhsImage, MediaKind } from '../types';
+
+// Download filename templates, e.g. "{author}_{title}_{index}.{ext}".
+// Token values are sanitised individually so user text can never inject
+// path separators or characters that Windows/macOS reject.
+
+// Same result as the original hardcoded naming: the AI name when present,
+// otherwise redsaver_{noteId}_{fileId}
+export const DEFAULT_FILENAME_TEMPLATE = '{aiName}.{ext}';
+
+export const FILENAME_TOKENS: { token: string; label: string }[] = [
+  { token: '{author}', label: '作者' },
+  { token: '{title}', label: '标题' },
+  { token: '{noteId}', label: '笔记 ID' },
+  { token: '{index}', label: '序号 (01, 02...)' },
+  { token: '{fileId}', label: '图片 ID' },
+  { token: '{aiName}', label: 'AI 名称 (无则为默认名)' },
+  { token: '{date}', label: '发布日期' },
+  { token: '{ext}', label: '扩展名' },
+];
+
+export interface FilenameContext {
+  post: XhsPost;
+  image: XhsImage;
+  index: number; // 0-based position of the image in its post
+  ext: string;
+}
+
+// Most filesystems cap a name at 255 bytes; leave room for " (99)" suffixes
+const MAX_NAME_BYTES = 200;
+
+const WINDOWS_RESERVED = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])(\..*)?$/i;
+
+// Zero-width and bidi control characters are invisible but break sorting and matching
+const INVISIBLE_CHARS = /[\u200B-\u200F\u202A-\u202E\u2060-\u2064\uFEFF]/g;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const formatDate = (ms: number): string => {
+  const d = new Date(ms);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+const utf8Length = (text: string): number => new TextEncoder().encode(text).length;
+
+// Truncates by UTF-8 bytes without splitting a code point (CJK is 3 bytes, emoji 4)
+const truncateBytes = (text: string, maxBytes: number): string => {
+  if (utf8Length(text) <= maxBytes) return text;
+  let result = '';
+  let bytes = 0;
+  for (const char of text) {
+    const size = utf8Length(char);
+    if (bytes + size > maxBytes) break;
+    result += char;
+    bytes += size;
+  }
+  return result;
+};
+
+// Makes one path segment safe on Windows, macOS and Linux
+export const sanitizeFilenamePart = (text: string): string =>
+  text
+    .normalize('NFC')
+    .replace(INVISIBLE_CHARS, '')
+    // Line breaks from titles and full-width spaces collapse to one regular space
+    // (before control characters go, or line breaks would become underscores)
+    .replace(/[\s\u3000]+/g, ' ')
+    // Illegal on Windows, plus control characters; full-width ／＼ would read as separators too
+    .replace(/[<>:"/\\|?*\x00-\x1F\x7F\uFF0F\uFF3C]/g, '_')
+    .trim();
+
+const tokenValues = ({ post, image, index, ext }: FilenameContext): Record<string, string> => ({
+  author: post.author,
+  title: post.title,
+  noteId: post.id,
+  index: pad(index + 1),
+  fileId: image.id,
+  aiName: image.aiName || `redsaver_${post.id}_${image.id}`,
+  date: formatDate(post.timestamp),
+  ext,
+});
+
+// Renders a template into a safe filename (extension included)
+export const renderFilename = (template: string, context: FilenameContext): string => {
+  const values = tokenValues(context);
+  const rendered = (template.trim() || DEFAULT_FILENAME_TEMPLATE).replace(
+    /\{(\w+)\}/g,
+    (match, key: string) => (key in values ? sanitizeFilenamePart(values[key]) : match)
+  );
+
+  let name = sanitizeFilenamePart(rendered);
+
+  // Make sure the real extension is there exactly once, even if the template omits {ext}
+  const suffix = `.${context.ext}`;
+  let base = name.toLowerCase().endsWith(suffix.toLowerCase()) ? name.slice(0, -suffix.length) : name;
+
+  // Trailing dots/spaces are stripped by Windows; leading dots hide files on Unix
+  base = base.replace(/^[.\s]+|[.\s]+$/g, '');
+  base = truncateBytes(base, MAX_NAME_BYTES - utf8Length(suffix)).replace(/[.\s]+$/, '');
+  if (!base) base = `redsaver_${context.post.id}_${context.image.id}`;
+  if (WINDOWS_RESERVED.test(base)) base = `_${base}`;
+
+  return `${base}${suffix}`;
+};
+
+// Hands out names that are unique within one download batch ("a.jpg", "a (2).jpg", ...).
+// Comparison ignores case because Windows and macOS do.
+export const createUniqueNamer = () => {
+  const used = new Set<string>();
+
+  return (fileName: string): string => {
+    const dot = fileName.lastIndexOf('.');
+    const base = dot > 0 ? fileName.slice(0, dot) : fileName;
+    const ext = dot > 0 ? fileName.slice(dot) : '';
+
+    let candidate = fileName;
+    for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+      candidate = `${base} (${n})${ext}`;
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+  };
+};
+
+// Ids of the images whose names clash (ignoring case) before the unique namer
+// adds " (2)" suffixes, so the clash can be fixed by hand ahead of a download
+export const findNameCollisions = (entries: { id: string; fileName: string }[]): Set<string> => {
+  const byName = new Map<string, string[]>();
+  entries.forEach(({ id, fileName }) => {
+    const key = fileName.toLowerCase();
+    byName.set(key, [...(byName.get(key) ?? []), id]);
+  });
+  return new Set([...byName.values()].filter(ids => ids.length > 1).flat());
+};
+
+// Helper to determine extension from blob type
+// Proxies often answer videos with a generic type, so the media kind picks the fallback
+export const getExtFromMime = (mime: string, kind: MediaKind = 'image'): string => {
+  switch (mime) {
+    case 'image/png': return 'png';
+    case 'image/webp': return 'webp';
+    case 'image/gif': return 'gif';
+    case 'image/avif': return 'avif';
+    case 'video/mp4': return 'mp4';
+    case 'video/quicktime': return 'mov';
+    case 'image/jpeg': return 'jpg';
+    default: 
+      return kind === 'video' ? 'mp4' : 'jpg';
+  }
+};
+
+// Author folder, then one folder per note: "作者/标题_noteId"
+export const buildPostFolderPath = (post: XhsPost): string[] => {
+  const segment = (text: string, fallback: string) =>
+    sanitizeFilenamePart(text).replace(/^[.\s]+|[.\s]+$/g, '').slice(0, 60) || fallback;
+  return [segment(post.author, 'unknown'), `${segment(post.title, 'untitled')}_${post.id}`];
+};
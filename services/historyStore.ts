@@ -0,0 +1,102 @@
+import { XhsPost, HistoryEntry, DownloadRecord, PerceptualHash } from '../types';
+import { STORES, withStores, promisifyRequest } from './db';
+
+// Persistent history of parsed notes and downloaded images (IndexedDB).
+
+// Entries saved by older versions lack fields added to XhsPost since
+const withPostDefaults = (entry: HistoryEntry): HistoryEntry => ({
+  ...entry,
+  post: {
+    ...entry.post,
+    noteUrl: entry.post.noteUrl ?? entry.sourceUrl,
+    desc: entry.post.desc ?? '',
+    tags: entry.post.tags ?? [],
+    stats: entry.post.stats ?? { likes: null, collects: null, comments: null, shares: null },
+  },
+});
+
+export const getHistoryEntry = (postId: string): Promise<HistoryEntry | undefined> =>
+  withStores([STORES.history], 'readonly', async (tx) => {
+    const entry = await promisifyRequest<HistoryEntry | undefined>(tx.objectStore(STORES.history).get(postId));
+    return entry && withPostDefaults(entry);
+  });
+
+// Newest first
+export const listHistory = (): Promise<HistoryEntry[]> =>
+  withStores([STORES.history], 'readonly', async (tx) => {
+    const entries = await promisifyRequest<HistoryEntry[]>(tx.objectStore(STORES.history).getAll());
+    return entries.map(withPostDefaults).sort((a, b) => b.updatedAt - a.updatedAt);
+  });
+
+// Inserts or refreshes a note, keeping its first-saved time and download log
+export const saveHistoryPost = (post: XhsPost): Promise<HistoryEntry> =>
+  withStores([STORES.history], 'readwrite', async (tx) => {
+    const store = tx.objectStore(STORES.history);
+    const existing = await promisifyRequest<HistoryEntry | undefined>(store.get(post.id));
+    const now = Date.now();
+    const entry: HistoryEntry = {
+      id: post.id,
+      title: post.title,
+      author: post.author,
+      authorAvatar: post.authorAvatar,
+      sourceUrl: post.sourceUrl,
+      timestamp: post.timestamp,
+      savedAt: existing?.savedAt ?? now,
+      updatedAt: now,
+      post,
+      downloads: existing?.downloads ?? {},
+    };
+    await promisifyRequest(store.put(entry));
+    return entry;
+  });
+
+export const deleteHistoryEntry = (postId: string): Promise<void> =>
+  withStores([STORES.history, STORES.downloads], 'readwrite', async (tx) => {
+    await promisifyRequest(tx.objectStore(STORES.history).delete(postId));
+    const downloads = tx.objectStore(STORES.downloads);
+    const imageIds = await promisifyRequest(downloads.index('postId').getAllKeys(postId));
+    await Promise.all(imageIds.map(key => promisifyRequest(downloads.delete(key))));
+  });
+
+// Logs downloaded images both on their note and in the global download index
+export const recordDownloads = (
+  postId: string,
+  imageIds: string[],
+  hashes: Map<string, PerceptualHash> = new Map()
+): Promise<DownloadRecord[]> =>
+  withStores([STORES.history, STORES.downloads], 'readwrite', async (tx) => {
+    const downloadedAt = Date.now();
+    const records: DownloadRecord[] = imageIds.map(imageId => ({ imageId, postId, downloadedAt, phash: hashes.get(imageId) }));
+
+    const downloads = tx.objectStore(STORES.downloads);
+    await Promise.all(records.map(record => promisifyRequest(downloads.put(record))));
+
+    const history = tx.objectStore(STORES.history);
+    const entry = await promisifyRequest<HistoryEntry | undefined>(history.get(postId));
+    if (entry) {
+      imageIds.forEach(id => { entry.downloads[id] = downloadedAt; });
+      await promisifyRequest(history.put(entry));
+    }
+    return records;
+  });
+
+// Looks up which of the given images were downloaded before (from any note)
+export const getDownloadRecords = (imageIds: string[]): Promise<Map<string, DownloadRecord>> =>
+  withStores([STORES.downloads], 'readonly', async (tx) => {
+    const store = tx.objectStore(STORES.downloads);
+    const found = await Promise.all(
+      imageIds.map(id => promisifyRequest<DownloadRecord | undefined>(store.get(id)))
+    );
+    const result = new Map<string, DownloadRecord>();
+    found.forEach(record => {
+      if (record) result.set(record.imageId, record);
+    });
+    return result;
+  });
+
+// Every downloaded image with a perceptual hash, for near-duplicate checks across notes
+export const getHashedDownloads = (): Promise<DownloadRecord[]> =>
+  withStores([STORES.downloads], 'readonly', async (tx) => {
+    const records = await promisifyRequest<DownloadRecord[]>(tx.objectStore(STORES.downloads).getAll());
+    return records.filter(record => record.phash);
+  });
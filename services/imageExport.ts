@@ -0,0 +1,295 @@
+// Optional re-encoding step between fetching an image and saving/zipping it:
+// format conversion, long-edge cap and EXIF handling, all done in the browser
+// with (Offscreen)Canvas. With the defaults the fetched bytes pass through untouched.
+
+export type ExportFormat = 'original' | 'jpeg' | 'png' | 'webp' | 'avif';
+
+export interface ImageExportOptions {
+  format: ExportFormat;
+  quality: number; // 0.5-1, used by JPEG/WebP/AVIF
+  maxLongEdge: number; // Pixels; 0 keeps the original size
+  keepExif: boolean; // Only JPEG to JPEG can carry EXIF through a re-encode; off strips JPEG/PNG/WebP metadata
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ImageExportOptions = {
+  format: 'original',
+  quality: 0.92,
+  maxLongEdge: 0,
+  keepExif: true,
+};
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string }[] = [
+  { id: 'original', label: '原格式' },
+  { id: 'jpeg', label: 'JPEG' },
+  { id: 'png', label: 'PNG' },
+  { id: 'webp', label: 'WebP' },
+  { id: 'avif', label: 'AVIF' },
+];
+
+const FORMAT_MIME: Record<Exclude<ExportFormat, 'original'>, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  avif: 'image/avif',
+};
+
+// Animated GIFs would lose their animation in a canvas, so they are left alone
+const CONVERTIBLE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/avif', 'image/heic', 'image/heif'];
+
+// Types every canvas can encode; other "original" formats are re-encoded as JPEG
+const CANVAS_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+export const isPassthroughExport = (options: ImageExportOptions): boolean =>
+  options.format === 'original' && !options.maxLongEdge && options.keepExif;
+
+// ---- JPEG EXIF (APP1) handling --------------------------------------------
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+};
+
+const readAscii = (bytes: Uint8Array, start: number, end: number): string =>
+  String.fromCharCode(...bytes.subarray(start, end));
+
+const isJpeg = (bytes: Uint8Array) => bytes[0] === 0xff && bytes[1] === 0xd8;
+
+// Proxies often answer with application/octet-stream, so trust the magic bytes instead
+const sniffImageType = (bytes: Uint8Array): string | null => {
+  const ascii = (start: number, end: number) => readAscii(bytes, start, end);
+  if (isJpeg(bytes)) return 'image/jpeg';
+  if (bytes[0] === 0x89 && ascii(1, 4) === 'PNG') return 'image/png';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'image/webp';
+  if (ascii(4, 8) === 'ftyp' && ['avif', 'avis'].includes(ascii(8, 12))) return 'image/avif';
+  if (ascii(0, 4) === 'GIF8') return 'image/gif';
+  return null;
+};
+
+// Walks JPEG marker segments up to the image data, returning [start, end) of each APP1 "Exif" segment
+const findExifSegments = (bytes: Uint8Array): [number, number][] => {
+  const segments: [number, number][] = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda || marker === 0xd9) break; // Start of scan / end of image
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const isExif = marker === 0xe1 && readAscii(bytes, offset + 4, offset + 8) === 'Exif';
+    if (isExif) segments.push([offset, offset + 2 + length]);
+    offset += 2 + length;
+  }
+  return segments;
+};
+
+export const stripJpegExif = (bytes: Uint8Array): Uint8Array => {
+  const segments = findExifSegments(bytes);
+  if (segments.length === 0) return bytes;
+  const parts: Uint8Array[] = [];
+  let cursor = 0;
+  segments.forEach(([start, end]) => {
+    parts.push(bytes.subarray(cursor, start));
+    cursor = end;
+  });
+  parts.push(bytes.subarray(cursor));
+  return concatBytes(parts);
+};
+
+// The canvas already applied the EXIF rotation, so a copied segment must say "upright"
+const resetOrientation = (segment: Uint8Array): Uint8Array => {
+  const copy = segment.slice();
+  const tiff = 10; // Marker (2) + length (2) + "Exif\0\0" (6)
+  const view = new DataView(copy.buffer);
+  if (copy.length < tiff + 8) return copy;
+  const little = view.getUint16(tiff) === 0x4949;
+  const ifd = tiff + view.getUint32(tiff + 4, little);
+  if (ifd + 2 > copy.length) return copy;
+  const count = view.getUint16(ifd, little);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > copy.length) break;
+    if (view.getUint16(entry, little) === 0x0112) {
+      view.setUint16(entry + 8, 1, little);
+      break;
+    }
+  }
+  return copy;
+};
+
+// Re-inserts the source's EXIF right after the SOI marker of the re-encoded JPEG
+const copyJpegExif = (source: Uint8Array, target: Uint8Array): Uint8Array => {
+  const segments = findExifSegments(source);
+  if (segments.length === 0) return target;
+  const cleanTarget = stripJpegExif(target);
+  return concatBytes([
+    cleanTarget.subarray(0, 2),
+    ...segments.map(([start, end]) => resetOrientation(source.subarray(start, end))),
+    cleanTarget.subarray(2),
+  ]);
+};
+
+// ---- PNG / WebP metadata handling -----------------------------------------
+
+// Chunks that carry EXIF, XMP and free text (camera, location, software...).
+// Colour profiles and everything needed to render the image stay.
+const PNG_METADATA_CHUNKS = ['eXIf', 'tEXt', 'iTXt', 'zTXt', 'tIME'];
+const WEBP_METADATA_CHUNKS = ['EXIF', 'XMP '];
+const VP8X_METADATA_FLAGS = 0x08 | 0x04; // "has EXIF" and "has XMP" bits of the VP8X header
+
+// PNG: 8-byte signature, then length (4, BE) + type (4) + data + CRC (4) chunks
+export const stripPngMetadata = (bytes: Uint8Array): Uint8Array => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+  let removed = false;
+  let offset = 8;
+  while (offset + 12 <= bytes.length) {
+    const end = offset + 12 + view.getUint32(offset);
+    if (PNG_METADATA_CHUNKS.includes(readAscii(bytes, offset + 4, offset + 8))) {
+      removed = true;
+    } else {
+      parts.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+  return removed ? concatBytes(parts) : bytes;
+};
+
+// WebP: "RIFF" + size (4, LE) + "WEBP", then FourCC + size (4, LE) + data chunks padded to even length
+export const stripWebpMetadata = (bytes: Uint8Array): Uint8Array => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Uint8Array[] = [];
+  let removed = false;
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const size = view.getUint32(offset + 4, true);
+    const end = offset + 8 + size + (size & 1);
+    const fourcc = readAscii(bytes, offset, offset + 4);
+    if (WEBP_METADATA_CHUNKS.includes(fourcc)) {
+      removed = true;
+    } else if (fourcc === 'VP8X') {
+      // The extended header announces the metadata chunks; it must stop doing so
+      const header = bytes.slice(offset, end);
+      header[8] &= ~VP8X_METADATA_FLAGS;
+      chunks.push(header);
+    } else {
+      chunks.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+  if (!removed) return bytes;
+
+  const body = concatBytes(chunks);
+  const riff = bytes.slice(0, 12);
+  new DataView(riff.buffer).setUint32(4, body.length + 4, true);
+  return concatBytes([riff, body]);
+};
+
+// Removes metadata without re-encoding. Other containers (AVIF, HEIC) are returned as-is.
+const stripMetadata = (bytes: Uint8Array, type: string): Uint8Array => {
+  switch (type) {
+    case 'image/jpeg': return stripJpegExif(bytes);
+    case 'image/png': return stripPngMetadata(bytes);
+    case 'image/webp': return stripWebpMetadata(bytes);
+    default: return bytes;
+  }
+};
+
+// ---- Canvas re-encoding ---------------------------------------------------
+
+const createCanvas = (width: number, height: number): OffscreenCanvas | HTMLCanvasElement =>
+  typeof OffscreenCanvas !== 'undefined'
+    ? new OffscreenCanvas(width, height)
+    : Object.assign(document.createElement('canvas'), { width, height });
+
+const canvasToBlob = (canvas: OffscreenCanvas | HTMLCanvasElement, mime: string, quality: number): Promise<Blob> =>
+  'convertToBlob' in canvas
+    ? canvas.convertToBlob({ type: mime, quality })
+    : new Promise((resolve, reject) => {
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Canvas export failed'))), mime, quality);
+    });
+
+const encodeCanvas = async (
+  bitmap: ImageBitmap,
+  width: number,
+  height: number,
+  mime: string,
+  quality: number
+): Promise<Blob> => {
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d') as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+  if (mime === 'image/jpeg') {
+    // JPEG has no alpha; transparent PNG/WebP areas would otherwise turn black
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  return canvasToBlob(canvas, mime, quality);
+};
+
+let supportedFormats: Promise<ExportFormat[]> | null = null;
+
+// Browsers silently encode PNG for types they can't write (AVIF in most), so
+// encode a 1x1 canvas once per format and check what comes out
+export const getSupportedExportFormats = (): Promise<ExportFormat[]> => {
+  supportedFormats ??= Promise.all(EXPORT_FORMATS.map(async ({ id }): Promise<ExportFormat | null> => {
+    if (id === 'original') return id;
+    try {
+      const blob = await canvasToBlob(createCanvas(1, 1), FORMAT_MIME[id], 0.8);
+      return blob.type === FORMAT_MIME[id] ? id : null;
+    } catch {
+      return null;
+    }
+  })).then(ids => ids.filter((id): id is ExportFormat => id !== null));
+  return supportedFormats;
+};
+
+// Applies the export options to one fetched image. Videos and unsupported
+// types (GIF, unknown) come back unchanged.
+export const processImageForExport = async (blob: Blob, options: ImageExportOptions): Promise<Blob> => {
+  if (isPassthroughExport(options) || blob.type.startsWith('video/')) return blob;
+
+  const sourceBytes = new Uint8Array(await blob.arrayBuffer());
+  const sourceType = sniffImageType(sourceBytes) ?? blob.type;
+  if (!CONVERTIBLE_TYPES.includes(sourceType)) return blob;
+
+  // The file as downloaded, minus metadata if it shouldn't be kept
+  const original = (): Blob => {
+    if (options.keepExif) return blob;
+    const stripped = stripMetadata(sourceBytes, sourceType);
+    return stripped === sourceBytes ? blob : new Blob([stripped], { type: sourceType });
+  };
+
+  // Metadata removal alone doesn't need a lossy re-encode
+  if (options.format === 'original' && !options.maxLongEdge) return original();
+
+  const mime = options.format !== 'original'
+    ? FORMAT_MIME[options.format]
+    : CANVAS_TYPES.includes(sourceType) ? sourceType : 'image/jpeg';
+  const bitmap = await createImageBitmap(new Blob([sourceBytes], { type: sourceType }));
+  try {
+    const longEdge = Math.max(bitmap.width, bitmap.height);
+    const scale = options.maxLongEdge && longEdge > options.maxLongEdge ? options.maxLongEdge / longEdge : 1;
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+
+    const encoded = await encodeCanvas(bitmap, width, height, mime, options.quality);
+    // The settings only offer formats this browser encodes, but imported settings
+    // may still ask for another one; keep the file rather than fail the download
+    if (encoded.type !== mime) {
+      console.warn(`Cannot encode ${mime} in this browser; keeping the original file`);
+      return original();
+    }
+
+    if (options.keepExif && mime === 'image/jpeg' && isJpeg(sourceBytes)) {
+      const withExif = copyJpegExif(sourceBytes, new Uint8Array(await encoded.arrayBuffer()));
+      return new Blob([withExif], { type: mime });
+    }
+    return encoded;
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,43 @@
+import { XhsImage } from '../types';
+
+// Grid search over AI analysis: free text plus tag chips.
+
+export interface ImageFilter {
+  query: string;
+  tags: string[]; // An image must carry every selected tag
+}
+
+export const EMPTY_IMAGE_FILTER: ImageFilter = { query: '', tags: [] };
+
+export const isFilterActive = (filter: ImageFilter): boolean =>
+  filter.query.trim() !== '' || filter.tags.length > 0;
+
+export const matchesImageFilter = (image: XhsImage, filter: ImageFilter): boolean => {
+  const imageTags = image.analysis?.tags ?? [];
+  if (!filter.tags.every(tag => imageTags.includes(tag))) return false;
+
+  const query = filter.query.trim().toLowerCase();
+  if (!query) return true;
+  const haystack = [
+    image.aiName,
+    image.analysis?.caption,
+    image.analysis?.ocrText,
+    image.analysis?.category,
+    ...imageTags,
+  ]
+    .filter(Boolean)
+    .join('\n')
+    .toLowerCase();
+  return haystack.includes(query);
+};
+
+// Every tag in use with how many images carry it, most common first
+export const collectImageTags = (images: XhsImage[]): { tag: string; count: number }[] => {
+  const counts = new Map<string, number>();
+  images.forEach(image => {
+    image.analysis?.tags.forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+  });
+  return [...counts]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
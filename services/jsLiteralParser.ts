@@ -0,0 +1,216 @@
+// Minimal parser for the JavaScript object literals that pages assign to
+// window.__INITIAL_STATE__. It accepts strict JSON plus what V8 happily
+// serialises into those scripts: `undefined`, NaN/Infinity, single-quoted
+// strings, unquoted keys and trailing commas. Unlike a blanket text replace,
+// string contents are never touched.
+
+export class JsLiteralSyntaxError extends Error {
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} at position ${position}`);
+    this.name = 'JsLiteralSyntaxError';
+    this.position = position;
+  }
+}
+
+const IDENTIFIER_START = /[A-Za-z_$]/;
+const IDENTIFIER_PART = /[A-Za-z0-9_$]/;
+
+// Parses one literal starting at `start` (leading whitespace allowed).
+// Returns the value and the index just past it, so callers can read a
+// literal embedded in a larger script without knowing where it ends.
+export const parseJsLiteral = (source: string, start = 0): { value: any; end: number } => {
+  let pos = start;
+
+  const fail = (message: string): never => {
+    throw new JsLiteralSyntaxError(message, pos);
+  };
+
+  const skipWhitespace = () => {
+    while (pos < source.length) {
+      const ch = source[pos];
+      if (ch === ' ' || ch === '\n' || ch === '\r' || ch === '\t' || ch === '\u2028' || ch === '\u2029') {
+        pos++;
+      } else if (ch === '/' && source[pos + 1] === '/') {
+        while (pos < source.length && source[pos] !== '\n') pos++;
+      } else if (ch === '/' && source[pos + 1] === '*') {
+        const close = source.indexOf('*/', pos + 2);
+        if (close === -1) fail('Unterminated comment');
+        pos = close + 2;
+      } else {
+        break;
+      }
+    }
+  };
+
+  const readIdentifier = (): string => {
+    const begin = pos;
+    if (!IDENTIFIER_START.test(source[pos] || '')) fail('Expected identifier');
+    while (pos < source.length && IDENTIFIER_PART.test(source[pos])) pos++;
+    return source.slice(begin, pos);
+  };
+
+  const readString = (): string => {
+    const quote = source[pos++];
+    let result = '';
+    while (pos < source.length) {
+      const ch = source[pos++];
+      if (ch === quote) return result;
+      if (ch !== '\\') {
+        result += ch;
+        continue;
+      }
+      const esc = source[pos++];
+      switch (esc) {
+        case 'n': result += '\n'; break;
+        case 'r': result += '\r'; break;
+        case 't': result += '\t'; break;
+        case 'b': result += '\b'; break;
+        case 'f': result += '\f'; break;
+        case 'v': result += '\v'; break;
+        case '0': result += '\0'; break;
+        case 'x': {
+          const hex = source.slice(pos, pos + 2);
+          if (!/^[0-9a-fA-F]{2}$/.test(hex)) fail('Invalid \\x escape');
+          result += String.fromCharCode(parseInt(hex, 16));
+          pos += 2;
+          break;
+        }
+        case 'u': {
+          if (source[pos] === '{') {
+            const close = source.indexOf('}', pos);
+            const hex = source.slice(pos + 1, close);
+            if (close === -1 || !/^[0-9a-fA-F]{1,6}$/.test(hex)) fail('Invalid \\u{} escape');
+            result += String.fromCodePoint(parseInt(hex, 16));
+            pos = close + 1;
+          } else {
+            const hex = source.slice(pos, pos + 4);
+            if (!/^[0-9a-fA-F]{4}$/.test(hex)) fail('Invalid \\u escape');
+            result += String.fromCharCode(parseInt(hex, 16));
+            pos += 4;
+          }
+          break;
+        }
+        case '\r':
+          // Line continuation (CRLF)
+          if (source[pos] === '\n') pos++;
+          break;
+        case '\n':
+        case '\u2028':
+        case '\u2029':
+          break;
+        default:
+          if (esc === undefined) fail('Unterminated string');
+          result += esc;
+      }
+    }
+    return fail('Unterminated string');
+  };
+
+  const readNumber = (): number => {
+    const match = /^[+-]?(?:0[xX][0-9a-fA-F]+|(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?|Infinity)/.exec(source.slice(pos, pos + 400));
+    if (!match) fail('Invalid number');
+    pos += match![0].length;
+    const text = match![0];
+    if (text.endsWith('Infinity')) return text.startsWith('-') ? -Infinity : Infinity;
+    // Number() rejects a signed hex literal, so handle the sign separately
+    const sign = text.startsWith('-') ? -1 : 1;
+    const unsigned = text.replace(/^[+-]/, '');
+    return sign * Number(unsigned);
+  };
+
+  const readValue = (): any => {
+    skipWhitespace();
+    const ch = source[pos];
+
+    if (ch === '{') return readObject();
+    if (ch === '[') return readArray();
+    if (ch === '"' || ch === "'") return readString();
+    if (ch === '-' || ch === '+' || ch === '.' || (ch >= '0' && ch <= '9')) return readNumber();
+
+    if (ch !== undefined && IDENTIFIER_START.test(ch)) {
+      const word = readIdentifier();
+      switch (word) {
+        case 'true': return true;
+        case 'false': return false;
+        case 'null': return null;
+        // JSON has no undefined; null is the closest faithful value
+        case 'undefined': return null;
+        case 'NaN': return NaN;
+        case 'Infinity': return Infinity;
+        default:
+          pos -= word.length;
+          return fail(`Unexpected identifier "${word}"`);
+      }
+    }
+
+    return fail(ch === undefined ? 'Unexpected end of input' : `Unexpected character "${ch}"`);
+  };
+
+  const readObject = (): Record<string, any> => {
+    const result: Record<string, any> = {};
+    pos++; // {
+    skipWhitespace();
+    while (source[pos] !== '}') {
+      let key: string;
+      const ch = source[pos];
+      if (ch === '"' || ch === "'") {
+        key = readString();
+      } else if (ch !== undefined && /[0-9]/.test(ch)) {
+        key = String(readNumber());
+      } else {
+        key = readIdentifier();
+      }
+
+      skipWhitespace();
+      if (source[pos] !== ':') fail('Expected ":"');
+      pos++;
+      const value = readValue();
+      if (key === '__proto__') {
+        // Plain assignment would swap the prototype instead of adding a key
+        Object.defineProperty(result, key, { value, enumerable: true, writable: true, configurable: true });
+      } else {
+        result[key] = value;
+      }
+
+      skipWhitespace();
+      if (source[pos] === ',') {
+        pos++;
+        skipWhitespace();
+      } else if (source[pos] !== '}') {
+        fail('Expected "," or "}"');
+      }
+    }
+    pos++; // }
+    return result;
+  };
+
+  const readArray = (): any[] => {
+    const result: any[] = [];
+    pos++; // [
+    skipWhitespace();
+    while (source[pos] !== ']') {
+      // Elisions ([1,,2]) are holes in JS; keep them as null
+      if (source[pos] === ',') {
+        result.push(null);
+        pos++;
+        skipWhitespace();
+        continue;
+      }
+      result.push(readValue());
+      skipWhitespace();
+      if (source[pos] === ',') {
+        pos++;
+        skipWhitespace();
+      } else if (source[pos] !== ']') {
+        fail('Expected "," or "]"');
+      }
+    }
+    pos++; // ]
+    return result;
+  };
+
+  const value = readValue();
+  return { value, end: pos };
+};
@@ -0,0 +1,91 @@
+import { XhsPost } from '../types';
+import { findXhsUrls } from './xhsUrlResolver';
+
+// Reads what the app was opened with, and mirrors the current view back into
+// the URL hash.
+//
+//   ?url=<link>&select=all|none|1,3,5&rename=1&download=zip|files|1
+//       Automation: parse, select, AI-rename, download, in that order.
+//   ?title=&text=&url=
+//       Web Share Target (see manifest.webmanifest); parsed like ?url=.
+//   #url=<canonical note url>&sel=all|none|1,3,5
+//       Written by the app for the current post, so a view can be bookmarked.
+//
+// Image numbers in select/sel are 1-based positions within the note.
+
+export type LaunchSelection = 'all' | 'none' | number[];
+
+export interface LaunchRequest {
+  text: string; // Contains at least one Xiaohongshu link
+  select: LaunchSelection | null; // Null keeps the default (all images)
+  rename: boolean;
+  download: 'zip' | 'files' | 'current' | null; // 'current' uses the saved download mode
+}
+
+const SHARE_PARAMS = ['title', 'text', 'url'];
+const AUTOMATION_PARAMS = ['select', 'rename', 'download'];
+
+const TRUE_VALUES = ['1', 'true', 'yes'];
+
+const parseSelection = (value: string | null): LaunchSelection | null => {
+  if (!value) return null;
+  if (value === 'all' || value === 'none') return value;
+  const numbers = value.split(',').map(Number).filter(n => Number.isInteger(n) && n >= 1);
+  return numbers.length > 0 ? numbers : null;
+};
+
+const parseDownload = (value: string | null): LaunchRequest['download'] => {
+  if (value === 'zip' || value === 'files') return value;
+  return value && TRUE_VALUES.includes(value) ? 'current' : null;
+};
+
+// The query string wins (automation, share target); otherwise a bookmarked hash is restored.
+// Apps disagree on which share field carries the link, so all of them are joined.
+export const readLaunchRequest = (search: string, hash: string): LaunchRequest | null => {
+  const query = new URLSearchParams(search);
+  const text = SHARE_PARAMS.map(name => query.get(name) || '').filter(Boolean).join(' ');
+  if (findXhsUrls(text).length > 0) {
+    return {
+      text,
+      select: parseSelection(query.get('select')),
+      rename: TRUE_VALUES.includes(query.get('rename') || ''),
+      download: parseDownload(query.get('download')),
+    };
+  }
+
+  const view = new URLSearchParams(hash.replace(/^#/, ''));
+  const url = view.get('url') || '';
+  if (findXhsUrls(url).length === 0) return null;
+  return { text: url, select: parseSelection(view.get('sel')), rename: false, download: null };
+};
+
+// Drops the launch parameters so a reload doesn't run the same pipeline again
+export const clearLaunchParams = () => {
+  const url = new URL(window.location.href);
+  [...SHARE_PARAMS, ...AUTOMATION_PARAMS].forEach(name => url.searchParams.delete(name));
+  window.history.replaceState(window.history.state, '', url.toString());
+};
+
+// Ids of the images a selection names; out-of-range numbers are ignored
+export const resolveSelection = (post: XhsPost, selection: LaunchSelection): string[] => {
+  if (selection === 'all') return post.images.map(img => img.id);
+  if (selection === 'none') return [];
+  return selection.filter(n => n <= post.images.length).map(n => post.images[n - 1].id);
+};
+
+const encodeSelection = (post: XhsPost, selectedIds: Set<string>): string => {
+  const numbers = post.images.map((img, i) => (selectedIds.has(img.id) ? i + 1 : 0)).filter(Boolean);
+  if (numbers.length === post.images.length) return 'all';
+  return numbers.length === 0 ? 'none' : numbers.join(',');
+};
+
+// Mirrors the open post and its selection into the hash; null clears it.
+// replaceState keeps selection clicks out of the back-button history.
+export const writeViewHash = (post: XhsPost | null, selectedIds: Set<string>) => {
+  const url = new URL(window.location.href);
+  url.hash = post
+    ? new URLSearchParams({ url: post.noteUrl, sel: encodeSelection(post, selectedIds) }).toString()
+    : '';
+  const next = url.toString().replace(/#$/, '');
+  if (next !== window.location.href) window.history.replaceState(window.history.state, '', next);
+};
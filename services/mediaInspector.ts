@@ -0,0 +1,45 @@
+import { XhsImage, DownloadInfo } from '../types';
+
+// Measures what a download really delivered, so a preview-sized or re-encoded
+// file can't silently pass as the original.
+
+// Re-encodes by proxies may shave a few pixels; only flag clearly smaller files
+const SIZE_TOLERANCE = 0.95;
+
+const measureImage = async (blob: Blob): Promise<{ width: number; height: number } | null> => {
+  if (!blob.type.startsWith('image/') && blob.type !== '') return null;
+  try {
+    const bitmap = await createImageBitmap(blob);
+    const size = { width: bitmap.width, height: bitmap.height };
+    bitmap.close();
+    return size;
+  } catch {
+    return null;
+  }
+};
+
+export const inspectDownload = async (
+  image: XhsImage,
+  blob: Blob,
+  source: DownloadInfo['source'],
+  proxy: string
+): Promise<DownloadInfo> => {
+  const size = image.kind === 'video' ? null : await measureImage(blob);
+  const belowDeclared = !!size && !!image.sizeDeclared &&
+    size.width * size.height < image.width * image.height * SIZE_TOLERANCE;
+
+  return {
+    width: size?.width ?? null,
+    height: size?.height ?? null,
+    bytes: blob.size,
+    format: blob.type || 'unknown',
+    source,
+    proxy,
+    belowDeclared,
+    downloadedAt: Date.now(),
+  };
+};
+
+// Preview fallbacks count as degraded even when their size can't be measured
+export const isDegradedDownload = (info: DownloadInfo): boolean =>
+  info.belowDeclared || info.source === 'preview';
@@ -0,0 +1,97 @@
+import { XhsPost } from '../types';
+
+// Note text and metadata exported next to the images, for content research archives.
+
+export interface MetadataFile {
+  fileName: string;
+  blob: Blob;
+}
+
+const formatDateTime = (ms: number) => new Date(ms).toISOString();
+
+const formatCount = (value: number | null) => (value === null ? '-' : String(value));
+
+export const buildPostMetadata = (post: XhsPost) => ({
+  noteId: post.id,
+  noteType: post.noteType,
+  title: post.title,
+  author: post.author,
+  desc: post.desc,
+  tags: post.tags,
+  stats: post.stats,
+  ipLocation: post.ipLocation ?? null,
+  publishedAt: formatDateTime(post.timestamp),
+  noteUrl: post.noteUrl,
+  sourceUrl: post.sourceUrl,
+  media: post.images.map((img, index) => ({
+    index: index + 1,
+    id: img.id,
+    kind: img.kind,
+    url: img.url,
+    width: img.width,
+    height: img.height,
+    aiName: img.aiName ?? null,
+    caption: img.analysis?.caption ?? null,
+    tags: img.analysis?.tags ?? [],
+    ocrText: img.analysis?.ocrText ?? null,
+    category: img.analysis?.category ?? null,
+  })),
+  exportedAt: formatDateTime(Date.now()),
+});
+
+// Markdown special characters in titles would otherwise turn into formatting
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_[\]#<>|])/g, '\\$1');
+
+// One bullet per analyzed image; images without analysis are left out
+const buildImageLines = (post: XhsPost): string[] => {
+  const analyzed = post.images
+    .map((img, index) => ({ img, index }))
+    .filter(({ img }) => img.analysis);
+  if (analyzed.length === 0) return [];
+  return [
+    '## 图片',
+    '',
+    ...analyzed.flatMap(({ img, index }) => {
+      const { caption, tags, ocrText, category } = img.analysis!;
+      return [
+        `${index + 1}. ${escapeMarkdown(img.aiName ?? img.id)}${caption ? ` — ${escapeMarkdown(caption)}` : ''}`,
+        ...(category ? [`   - 分类：${category}`] : []),
+        ...(tags.length > 0 ? [`   - 标签：${tags.map(tag => `#${tag}`).join(' ')}`] : []),
+        ...(ocrText ? [`   - 图中文字：${escapeMarkdown(ocrText.replace(/\s*\n\s*/g, ' / '))}`] : []),
+      ];
+    }),
+    '',
+  ];
+};
+
+export const buildPostMarkdown = (post: XhsPost): string => {
+  const lines = [
+    `# ${escapeMarkdown(post.title)}`,
+    '',
+    `- 作者：${escapeMarkdown(post.author)}`,
+    `- 发布时间：${new Date(post.timestamp).toLocaleString('zh-CN', { hour12: false })}`,
+    ...(post.ipLocation ? [`- IP 属地：${post.ipLocation}`] : []),
+    `- 点赞 ${formatCount(post.stats.likes)} · 收藏 ${formatCount(post.stats.collects)} · 评论 ${formatCount(post.stats.comments)} · 分享 ${formatCount(post.stats.shares)}`,
+    `- 链接：<${post.noteUrl}>`,
+    ...(post.tags.length > 0 ? [`- 标签：${post.tags.map(tag => `#${tag}`).join(' ')}`] : []),
+    '',
+    '## 正文',
+    '',
+    // Keep the author's line breaks: Markdown needs two trailing spaces for a <br>
+    post.desc ? post.desc.split('\n').map(line => `${line}  `).join('\n') : '（无正文）',
+    '',
+    ...buildImageLines(post),
+  ];
+  return lines.join('\n');
+};
+
+export const buildMetadataFiles = (post: XhsPost): MetadataFile[] => [
+  {
+    fileName: `note_${post.id}.json`,
+    blob: new Blob([JSON.stringify(buildPostMetadata(post), null, 2)], { type: 'application/json' }),
+  },
+  {
+    fileName: `note_${post.id}.md`,
+    blob: new Blob([buildPostMarkdown(post)], { type: 'text/markdown' }),
+  },
+];
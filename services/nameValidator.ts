@@ -0,0 +1,90 @@
+import { sanitizeFilenamePart } from './filenameTemplate';
+
+// Checks model output before it becomes aiName. Models drift from the prompt
+// (wrong language, sentences, extensions, quotes), so every answer is cleaned
+// to the chosen language's character set and length limit, or rejected.
+
+export type NamingLanguage = 'zh' | 'en' | 'pinyin' | 'both';
+
+export const NAMING_LANGUAGES: { id: NamingLanguage; label: string }[] = [
+  { id: 'zh', label: '中文' },
+  { id: 'en', label: 'English' },
+  { id: 'pinyin', label: '拼音' },
+  { id: 'both', label: '中文 + English' },
+];
+
+// Counted in characters; a 20-character Chinese name is 60 bytes on disk
+const MAX_ZH_LENGTH = 20;
+const MAX_LATIN_LENGTH = 60;
+
+// Separates the two halves of a bilingual name, e.g. "红裙女孩_girl-in-red-dress"
+export const BILINGUAL_SEPARATOR = '_';
+
+const HAN = /\p{Script=Han}/u;
+
+export type NameValidation = { name: string } | { error: string };
+
+// Strips what models wrap around the answer: quotes, a trailing period, a file extension
+const stripDecoration = (raw: string): string =>
+  raw
+    .trim()
+    .split('\n')[0]
+    .replace(/^["'`“”‘’「」]+|["'`“”‘’「」.。]+$/g, '')
+    .replace(/\.(jpe?g|png|webp|gif|avif|mp4)$/i, '')
+    .trim();
+
+// Cuts at the last dash that fits so words stay whole
+const truncateKebab = (name: string, maxLength: number): string => {
+  if (name.length <= maxLength) return name;
+  const cut = name.slice(0, maxLength + 1);
+  const lastDash = cut.lastIndexOf('-');
+  return (lastDash > 0 ? cut.slice(0, lastDash) : name.slice(0, maxLength)).replace(/-+$/, '');
+};
+
+const validateLatin = (text: string, label: string): NameValidation => {
+  if (HAN.test(text)) return { error: `名称不是${label}: ${text}` };
+  const name = text
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '') // Pinyin tone marks and ü
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  if (!name) return { error: `名称为空: ${text}` };
+  return { name: truncateKebab(name, MAX_LATIN_LENGTH) };
+};
+
+const validateChinese = (text: string): NameValidation => {
+  const name = sanitizeFilenamePart(text)
+    // Keep letters, digits and dashes; drop spaces and (full-width) punctuation
+    .replace(/[^\p{L}\p{N}-]+/gu, '')
+    .replace(/^-+|-+$/g, '');
+  if (!HAN.test(name)) return { error: `名称不是中文: ${text}` };
+  return { name: [...name].slice(0, MAX_ZH_LENGTH).join('').replace(/-+$/, '') };
+};
+
+export const validateAiName = (raw: string, language: NamingLanguage): NameValidation => {
+  const text = stripDecoration(raw);
+  if (!text) return { error: '模型返回了空名称' };
+
+  switch (language) {
+    case 'en':
+      return validateLatin(text, '英文');
+    case 'pinyin':
+      return validateLatin(text, '拼音');
+    case 'zh':
+      return validateChinese(text);
+    case 'both': {
+      const split = text.indexOf(BILINGUAL_SEPARATOR);
+      if (split <= 0) return { error: `缺少中英文两部分: ${text}` };
+      const zh = validateChinese(text.slice(0, split));
+      if ('error' in zh) return zh;
+      const en = validateLatin(text.slice(split + 1), '英文');
+      if ('error' in en) return en;
+      return { name: `${zh.name}${BILINGUAL_SEPARATOR}${en.name}` };
+    }
+  }
+};
+
+// For names not written by a model (heuristic provider): only filesystem safety
+export const sanitizeGeneratedName = (raw: string): string =>
+  [...sanitizeFilenamePart(stripDecoration(raw)).replace(/\s+/g, '-')].slice(0, MAX_LATIN_LENGTH).join('');
@@ -0,0 +1,40 @@
+import { ImageAnalysis } from '../types';
+import { STORES, withStores, promisifyRequest } from './db';
+
+// AI names already paid for, so re-running naming on the same images is free.
+// A record is only reused when it was produced by the same provider settings
+// and carries the full analysis (names cached before analysis existed don't).
+
+export interface CachedName {
+  imageId: string;
+  aiName: string;
+  analysis?: ImageAnalysis;
+  signature: string; // Provider and model that produced the name
+  namedAt: number;
+}
+
+export type NamingCacheValue = Pick<CachedName, 'aiName' | 'analysis'>;
+
+export const getCachedNames = (imageIds: string[], signature: string): Promise<Map<string, NamingCacheValue>> =>
+  withStores([STORES.aiNames], 'readonly', async (tx) => {
+    const store = tx.objectStore(STORES.aiNames);
+    const found = await Promise.all(
+      imageIds.map(id => promisifyRequest<CachedName | undefined>(store.get(id)))
+    );
+    const result = new Map<string, NamingCacheValue>();
+    found.forEach(record => {
+      if (record && record.signature === signature && record.analysis) {
+        result.set(record.imageId, { aiName: record.aiName, analysis: record.analysis });
+      }
+    });
+    return result;
+  });
+
+export const saveCachedNames = (names: Map<string, NamingCacheValue>, signature: string): Promise<void> =>
+  withStores([STORES.aiNames], 'readwrite', async (tx) => {
+    const store = tx.objectStore(STORES.aiNames);
+    const namedAt = Date.now();
+    await Promise.all(
+      [...names].map(([imageId, value]) => promisifyRequest(store.put({ imageId, ...value, signature, namedAt })))
+    );
+  });
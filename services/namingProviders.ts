@@ -0,0 +1,286 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { XhsPost, XhsImage, ImageAnalysis } from '../types';
+import { NamingLanguage, BILINGUAL_SEPARATOR } from './nameValidator';
+
+// Backends that turn an image into a short filename plus a caption, tags,
+// on-image text and a category. Gemini and any OpenAI-compatible chat/vision
+// server (OpenAI, Ollama, LM Studio...) look at the picture; the heuristic
+// provider needs no network and only names files from the note.
+
+export type NamingProviderId = 'gemini' | 'openai' | 'heuristic';
+
+export interface NamingConfig {
+  provider: NamingProviderId;
+  apiKey: string;
+  model: string;
+  baseUrl: string; // Only used by the OpenAI-compatible provider
+  language: NamingLanguage;
+  promptTemplate: string; // Empty for DEFAULT_PROMPT_TEMPLATE
+}
+
+export interface NamingItem {
+  image: XhsImage;
+  index: number; // Position of the image in its note
+  imageData?: { base64: string; mimeType: string }; // Present when the provider needs pixels
+}
+
+export interface NamingBatch {
+  post: XhsPost;
+  items: NamingItem[];
+}
+
+export interface NamingResult {
+  name: string;
+  analysis?: ImageAnalysis;
+}
+
+export interface NamingProvider {
+  id: NamingProviderId;
+  label: string;
+  needsImage: boolean;
+  maxBatchSize: number; // Images sent in one request
+  defaultModel: string;
+  defaultBaseUrl: string;
+  isConfigured: (config: NamingConfig) => boolean;
+  // Resolves with one raw result per item, in order; null where the model gave none
+  nameImages: (batch: NamingBatch, config: NamingConfig) => Promise<(NamingResult | null)[]>;
+}
+
+export const IMAGE_CATEGORIES = ['fashion', 'beauty', 'food', 'travel', 'home', 'portrait', 'pet', 'landscape', 'product', 'text', 'other'];
+
+// What {nameRule} expands to for each output language
+const NAME_RULES: Record<NamingLanguage, string> = {
+  en: "a very short, descriptive filename in English (lowercase, kebab-case, no extension). Max 5 words. Example: 'girl-in-red-dress' or 'cat-sleeping-sofa'.",
+  zh: "a very short, descriptive filename in Simplified Chinese, without spaces, punctuation or extension. Max 12 characters. Example: '红裙女孩' or '沙发上睡觉的猫'.",
+  pinyin: "a very short, descriptive filename in Hanyu Pinyin without tone marks (lowercase, kebab-case, no extension). Max 5 words. Example: 'hong-qun-nv-hai'.",
+  both: `a very short Simplified Chinese filename (max 12 characters, no spaces or punctuation) and its English translation (lowercase kebab-case, max 5 words), joined by '${BILINGUAL_SEPARATOR}'. Example: '红裙女孩${BILINGUAL_SEPARATOR}girl-in-red-dress'.`,
+};
+
+export const PROMPT_PLACEHOLDERS: { token: string; label: string }[] = [
+  { token: '{count}', label: '本次图片数' },
+  { token: '{nameRule}', label: '所选语言的命名规则' },
+  { token: '{categories}', label: '可选分类' },
+];
+
+// User-editable part of the prompt. The JSON answer format is always appended
+// after it, so an edited template can't break response parsing.
+export const DEFAULT_PROMPT_TEMPLATE = [
+  'You will receive {count} image(s), labelled "Image 1" to "Image {count}" in order. For each image, provide:',
+  '- name: {nameRule}',
+  '- caption: one short sentence describing the image, suitable as alt text.',
+  '- tags: 3 to 8 short lowercase content tags.',
+  '- text: all text visible in the image, verbatim, or an empty string if there is none.',
+  '- category: exactly one of {categories}.',
+].join('\n');
+
+export const buildNamingPrompt = (count: number, config: Pick<NamingConfig, 'language' | 'promptTemplate'>) => {
+  const values: Record<string, string> = {
+    count: String(count),
+    nameRule: NAME_RULES[config.language],
+    categories: IMAGE_CATEGORIES.join(', '),
+  };
+  const instructions = (config.promptTemplate.trim() || DEFAULT_PROMPT_TEMPLATE).replace(
+    /\{(\w+)\}/g,
+    (match, key: string) => values[key] ?? match
+  );
+  return `${instructions}\n` +
+    `Respond with JSON only, in the form {"images": [{"name": "...", "caption": "...", "tags": ["..."], "text": "...", "category": "..."}]}, with exactly ${count} entries in the same order.`;
+};
+
+const analysisSchema = {
+  type: Type.OBJECT,
+  properties: {
+    images: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          caption: { type: Type.STRING },
+          tags: { type: Type.ARRAY, items: { type: Type.STRING } },
+          text: { type: Type.STRING },
+          category: { type: Type.STRING, enum: IMAGE_CATEGORIES },
+        },
+        required: ['name', 'caption', 'tags', 'text', 'category'],
+      },
+    },
+  },
+  required: ['images'],
+};
+
+const asString = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+const parseEntry = (entry: unknown): NamingResult | null => {
+  // Weaker models sometimes answer with bare names
+  if (typeof entry === 'string') return entry.trim() ? { name: entry } : null;
+  if (!entry || typeof entry !== 'object') return null;
+  const data = entry as Record<string, unknown>;
+  const name = asString(data.name);
+  if (!name) return null;
+  const tags = Array.isArray(data.tags)
+    ? [...new Set(data.tags.map(asString).map(tag => tag.replace(/^#/, '').toLowerCase()).filter(Boolean))]
+    : [];
+  return {
+    name,
+    analysis: {
+      caption: asString(data.caption),
+      tags,
+      ocrText: asString(data.text),
+      category: asString(data.category).toLowerCase(),
+    },
+  };
+};
+
+// Index of the bracket closing the object/array that opens at `start`, or -1.
+// Brackets inside strings don't count.
+const findJsonEnd = (text: string, start: number): number => {
+  const closers: string[] = [];
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === '{' || ch === '[') {
+      closers.push(ch === '{' ? '}' : ']');
+    } else if (ch === '}' || ch === ']') {
+      if (closers.pop() !== ch) return -1;
+      if (closers.length === 0) return i;
+    }
+  }
+  return -1;
+};
+
+// An object, or an array of names / entries (not prose like "[1]")
+const isAnswerShaped = (data: unknown): boolean =>
+  Array.isArray(data)
+    ? data.every(entry => typeof entry === 'string' || (!!entry && typeof entry === 'object'))
+    : !!data && typeof data === 'object';
+
+// First balanced JSON value in the text that parses and looks like an answer
+const extractJson = (text: string): unknown => {
+  for (let start = 0; start < text.length; start++) {
+    if (text[start] !== '{' && text[start] !== '[') continue;
+    const end = findJsonEnd(text, start);
+    if (end === -1) continue;
+    try {
+      const data = JSON.parse(text.slice(start, end + 1));
+      if (isAnswerShaped(data)) return data;
+    } catch {
+      // Bracketed prose such as "[Image 1]"; keep looking
+    }
+  }
+  throw new Error('Naming response contained no JSON');
+};
+
+// Accepts {"images": [...]}, {"names": [...]} or a bare array, tolerating code
+// fences and chatter (even chatter with brackets) around the JSON
+export const parseNamingResponse = (text: string, count: number): (NamingResult | null)[] => {
+  const data: any = extractJson(text);
+  const entries: unknown[] = Array.isArray(data)
+    ? data
+    : Array.isArray(data?.images) ? data.images : Array.isArray(data?.names) ? data.names : [];
+  return Array.from({ length: count }, (_, i) => parseEntry(entries[i]));
+};
+
+const geminiProvider: NamingProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  needsImage: true,
+  maxBatchSize: 6,
+  defaultModel: 'gemini-2.5-flash',
+  defaultBaseUrl: '',
+  isConfigured: (config) => !!config.apiKey,
+  nameImages: async ({ items }, config) => {
+    const ai = new GoogleGenAI({ apiKey: config.apiKey });
+    const response = await ai.models.generateContent({
+      model: config.model || geminiProvider.defaultModel,
+      contents: {
+        parts: [
+          ...items.flatMap(({ imageData }, i) => [
+            { text: `Image ${i + 1}:` },
+            { inlineData: { mimeType: imageData!.mimeType, data: imageData!.base64 } },
+          ]),
+          { text: buildNamingPrompt(items.length, config) },
+        ],
+      },
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: analysisSchema,
+      },
+    });
+    return parseNamingResponse(response.text ?? '', items.length);
+  },
+};
+
+const openAiCompatibleProvider: NamingProvider = {
+  id: 'openai',
+  label: 'OpenAI 兼容接口 (Ollama / LM Studio)',
+  needsImage: true,
+  maxBatchSize: 4, // Small local vision models lose track of order with many images
+  defaultModel: 'llava',
+  defaultBaseUrl: 'http://localhost:11434/v1',
+  // Local servers usually accept requests without a key
+  isConfigured: (config) => !!config.baseUrl && !!config.model,
+  nameImages: async ({ items }, config) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+
+    const response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: config.model,
+        messages: [
+          {
+            role: 'user',
+            content: [
+              ...items.flatMap(({ imageData }, i) => [
+                { type: 'text', text: `Image ${i + 1}:` },
+                { type: 'image_url', image_url: { url: `data:${imageData!.mimeType};base64,${imageData!.base64}` } },
+              ]),
+              { type: 'text', text: buildNamingPrompt(items.length, config) },
+            ],
+          },
+        ],
+        // No response_format: LM Studio rejects json_object, and the prompt already asks for JSON
+        temperature: 0.2,
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`Naming endpoint responded ${response.status}`);
+    }
+    const data = await response.json();
+    return parseNamingResponse(data?.choices?.[0]?.message?.content ?? '', items.length);
+  },
+};
+
+// Note title plus position, e.g. "city-walk-route-03"
+const heuristicProvider: NamingProvider = {
+  id: 'heuristic',
+  label: '不使用 AI (按笔记标题命名)',
+  needsImage: false,
+  maxBatchSize: Infinity,
+  defaultModel: '',
+  defaultBaseUrl: '',
+  isConfigured: () => true,
+  nameImages: async ({ post, items }) => {
+    const base = post.title
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 40)
+      .replace(/-+$/, '');
+    return items.map(({ index }) => ({ name: `${base || 'image'}-${String(index + 1).padStart(2, '0')}` }));
+  },
+};
+
+export const NAMING_PROVIDERS: NamingProvider[] = [geminiProvider, openAiCompatibleProvider, heuristicProvider];
+
+export const getNamingProvider = (id: NamingProviderId): NamingProvider =>
+  NAMING_PROVIDERS.find(provider => provider.id === id) ?? geminiProvider;
+
+export const isNamingConfigured = (config: NamingConfig): boolean =>
+  getNamingProvider(config.provider).isConfigured(config);
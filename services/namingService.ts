@@ -0,0 +1,165 @@
+import { XhsPost, XhsImage, ImageAnalysis } from "../types";
+import { fetchBlobWithRetry } from "./xhsService";
+import { NamingConfig, NamingItem, getNamingProvider } from "./namingProviders";
+import { validateAiName, sanitizeGeneratedName } from "./nameValidator";
+import { getCachedNames, saveCachedNames, NamingCacheValue } from "./namingCache";
+import { isIndexedDbAvailable } from "./db";
+
+// Batches sent at once; kept low so the image proxies don't start rate limiting
+const NAMING_CONCURRENCY = 2;
+
+export interface SmartNameOptions {
+  onlyFailed?: boolean; // Retry just the images whose last naming attempt failed
+  fetchImage?: (url: string) => Promise<Blob>; // Defaults to the browser app's proxy pool
+}
+
+// btoa over chunks rather than FileReader, so naming also runs outside the browser
+const getBase64FromBlob = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// OPTIMIZATION: Try fetching the preview URL first for AI analysis.
+// AI doesn't need 4K resolution, and preview URLs are often more reliable/smaller.
+const fetchImageForAnalysis = async (img: XhsImage, fetchImage: (url: string) => Promise<Blob>): Promise<Blob> => {
+  try {
+    return await fetchImage(img.previewUrl);
+  } catch (e) {
+    // Fallback to HQ URL if preview fails
+    // (a video's HQ URL is the MP4 itself, so only its cover can be analyzed)
+    if (img.kind === 'video') throw e;
+    return fetchImage(img.url);
+  }
+};
+
+// Proxies sometimes answer with a generic type; JPEG is what XHS serves by default
+const getImageMimeType = (blob: Blob): string =>
+  blob.type.startsWith('image/') ? blob.type : 'image/jpeg';
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+};
+
+const errorMessage = (err: any): string => err?.message || String(err);
+
+// Short stable fingerprint of the prompt template (djb2), for cache keys
+const hashText = (text: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  return (hash >>> 0).toString(36);
+};
+
+// Names and analyzes every image of a post (or only the failed ones). Each image
+// comes back either with a fresh aiName (and analysis, for vision providers) or
+// with namingError explaining what went wrong.
+export const generateSmartNames = async (
+  post: XhsPost,
+  config: NamingConfig,
+  { onlyFailed = false, fetchImage = (url) => fetchBlobWithRetry(url) }: SmartNameOptions = {}
+): Promise<XhsImage[]> => {
+  const provider = getNamingProvider(config.provider);
+  if (!provider.isConfigured(config)) {
+    console.warn(`Naming provider "${provider.id}" is not configured`);
+    return post.images;
+  }
+
+  const updatedImages = [...post.images];
+  const succeed = (index: number, name: string, analysis?: ImageAnalysis) => {
+    updatedImages[index] = {
+      ...updatedImages[index],
+      aiName: name,
+      analysis: analysis ?? updatedImages[index].analysis,
+      namingError: undefined,
+    };
+  };
+  const fail = (index: number, error: string) => {
+    console.error(`Failed to name image ${updatedImages[index].id}:`, error);
+    updatedImages[index] = { ...updatedImages[index], namingError: error };
+  };
+
+  let targets = post.images
+    .map((image, index) => ({ image, index }))
+    .filter(({ image }) => !onlyFailed || image.namingError);
+
+  // Only names that cost a model call are worth caching. Without IndexedDB
+  // (Node, the CLI) there is no cache to read or fill.
+  const cacheable = provider.needsImage && isIndexedDbAvailable();
+  // Changing language or prompt must not serve names made under the old ones
+  const signature = `${provider.id}:${config.model}:${config.language}:${hashText(config.promptTemplate.trim())}`;
+  if (cacheable) {
+    try {
+      const cached = await getCachedNames(targets.map(t => t.image.id), signature);
+      targets.forEach(({ image, index }) => {
+        const hit = cached.get(image.id);
+        if (hit) succeed(index, hit.aiName, hit.analysis);
+      });
+      targets = targets.filter(({ image }) => !cached.has(image.id));
+    } catch (err) {
+      console.warn('Naming cache unavailable', err);
+    }
+  }
+
+  const freshNames = new Map<string, NamingCacheValue>();
+
+  const runBatch = async (batch: { image: XhsImage; index: number }[]) => {
+    let items: NamingItem[] = batch;
+    if (provider.needsImage) {
+      const loaded = await Promise.all(batch.map(async (item): Promise<NamingItem | null> => {
+        try {
+          const blob = await fetchImageForAnalysis(item.image, fetchImage);
+          return { ...item, imageData: { base64: await getBase64FromBlob(blob), mimeType: getImageMimeType(blob) } };
+        } catch (err) {
+          fail(item.index, `图片获取失败: ${errorMessage(err)}`);
+          return null;
+        }
+      }));
+      items = loaded.filter((item): item is NamingItem => item !== null);
+      if (items.length === 0) return;
+    }
+
+    try {
+      const results = await provider.nameImages({ post, items }, config);
+      items.forEach((item, i) => {
+        const result = results[i];
+        if (!result) {
+          fail(item.index, '模型未返回该图片的名称');
+          return;
+        }
+        if (!provider.needsImage) {
+          succeed(item.index, sanitizeGeneratedName(result.name) || `image-${item.image.id}`);
+          return;
+        }
+        const validation = validateAiName(result.name, config.language);
+        if ('error' in validation) {
+          fail(item.index, validation.error);
+          return;
+        }
+        succeed(item.index, validation.name, result.analysis);
+        freshNames.set(item.image.id, { aiName: validation.name, analysis: result.analysis });
+      });
+    } catch (err) {
+      items.forEach(item => fail(item.index, errorMessage(err)));
+    }
+  };
+
+  // Bounded pool of workers pulling batches off a shared list
+  const pending = chunk(targets, provider.maxBatchSize);
+  const worker = async () => {
+    while (pending.length > 0) {
+      await runBatch(pending.shift()!);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(NAMING_CONCURRENCY, pending.length) }, worker));
+
+  if (cacheable && freshNames.size > 0) {
+    await saveCachedNames(freshNames, signature).catch(err => console.warn('Failed to cache names', err));
+  }
+
+  return updatedImages;
+};
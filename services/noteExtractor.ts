@@ -0,0 +1,227 @@
+import { XhsPost, XhsImage } from '../types';
+import { parseJsLiteral } from './jsLiteralParser';
+import { XhsParseError } from './xhsErrors';
+
+// Pure, network-free extraction of note data from a fetched note page.
+// Kept separate from xhsService so it can run against saved HTML.
+
+// Known places a note lives inside the page state, in the order they are tried
+export type NoteSchema = 'noteDetailMap' | 'note.note' | 'note' | 'data.note' | 'feed.items';
+
+export interface ExtractedNote {
+  note: any; // Raw note record as served by Xiaohongshu
+  schema: NoteSchema;
+}
+
+// Global assignments that carry the page state, in order of preference
+const STATE_GLOBALS = ['__INITIAL_STATE__', '__INITIAL_SSR_STATE__'];
+
+const INITIAL_STATE_SCRIPT = /<script[^>]*\bid=["']initial-state["'][^>]*>([\s\S]*?)<\/script>/;
+
+// A note record has an id plus at least one of the fields we read media from
+const isNoteLike = (value: any): boolean =>
+  !!value && typeof value === 'object' && !!(value.noteId || value.id) &&
+  !!(value.imageList || value.video || value.type);
+
+const SCHEMA_HANDLERS: { schema: NoteSchema; locate: (state: any) => any }[] = [
+  {
+    // Web explore page: { note: { noteDetailMap: { [id]: { note } }, currentNoteId } }
+    schema: 'noteDetailMap',
+    locate: (state) => {
+      const map = state.note?.noteDetailMap;
+      if (!map || typeof map !== 'object') return undefined;
+      const preferredId = state.note.currentNoteId || state.note.firstNoteId;
+      const entry = (preferredId && map[preferredId]) || Object.values<any>(map).find(e => isNoteLike(e?.note));
+      return entry?.note;
+    },
+  },
+  { schema: 'note.note', locate: (state) => state.note?.note },
+  { schema: 'note', locate: (state) => state.note },
+  // Mobile / other structures
+  { schema: 'data.note', locate: (state) => state.data?.note },
+  // "feed" structure (sometimes seen in explore pages)
+  { schema: 'feed.items', locate: (state) => state.feed?.items?.[0]?.note },
+];
+
+// Reads the raw page state object out of the HTML
+export const extractStateFromHtml = (html: string): any => {
+  for (const name of STATE_GLOBALS) {
+    const assignment = new RegExp(`window\\.${name}\\s*=\\s*`).exec(html);
+    if (!assignment) continue;
+    try {
+      return parseJsLiteral(html, assignment.index + assignment[0].length).value;
+    } catch (e: any) {
+      throw new XhsParseError('STATE_PARSE_FAILED', `${name}: ${e.message}`);
+    }
+  }
+
+  // Fallback: JSON in a script tag with id="initial-state" (sometimes used)
+  const script = INITIAL_STATE_SCRIPT.exec(html);
+  if (script) {
+    try {
+      return parseJsLiteral(script[1]).value;
+    } catch (e: any) {
+      throw new XhsParseError('STATE_PARSE_FAILED', `initial-state: ${e.message}`);
+    }
+  }
+
+  throw new XhsParseError('STATE_NOT_FOUND');
+};
+
+// Locates the note record in a note page's HTML
+export const extractNoteFromHtml = (html: string): ExtractedNote => {
+  const state = extractStateFromHtml(html);
+  if (!state || typeof state !== 'object') {
+    throw new XhsParseError('STATE_PARSE_FAILED', 'state is not an object');
+  }
+
+  for (const { schema, locate } of SCHEMA_HANDLERS) {
+    const note = locate(state);
+    if (isNoteLike(note)) {
+      return { note, schema };
+    }
+  }
+
+  throw new XhsParseError('NOTE_NOT_FOUND', `state keys: ${Object.keys(state).join(', ')}`);
+};
+
+const toHttps = (url: string): string =>
+  url.startsWith('http://') ? url.replace('http://', 'https://') : url;
+
+// Codec renditions in order of preference (h264 plays everywhere)
+const STREAM_CODECS = ['h264', 'h265', 'av1', 'h266'];
+
+// Picks the best playable URL out of a note/live-photo stream object
+const pickStreamUrl = (stream: any): string | undefined => {
+  for (const codec of STREAM_CODECS) {
+    const rendition = stream?.[codec]?.[0];
+    const url = rendition?.masterUrl || rendition?.backupUrls?.[0];
+    if (url) return toHttps(url);
+  }
+  return undefined;
+};
+
+// Xiaohongshu abbreviates counts ("1.2万", "10+"); turn them into plain numbers
+export const parseCount = (value: any): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  const match = value.trim().match(/^([\d.]+)\s*(万|w|千|k|亿)?\+?$/i);
+  if (!match) return null;
+  const multipliers: Record<string, number> = { '万': 1e4, 'w': 1e4, '千': 1e3, 'k': 1e3, '亿': 1e8 };
+  const unit = match[2]?.toLowerCase();
+  return Math.round(parseFloat(match[1]) * (unit ? multipliers[unit] : 1));
+};
+
+// Hashtags are embedded in desc as "#name[话题]#"
+const HASHTAG_MARKUP = /#([^#\[\]\n]+?)\[话题\]#/g;
+
+const extractTags = (note: any): string[] => {
+  const fromList: string[] = (note.tagList || [])
+    .map((tag: any) => tag?.name)
+    .filter((name: any): name is string => typeof name === 'string' && name.length > 0);
+  const fromDesc = Array.from((note.desc || '').matchAll(HASHTAG_MARKUP), (m: RegExpMatchArray) => m[1].trim());
+  return Array.from(new Set([...fromList, ...fromDesc]));
+};
+
+const buildNoteUrl = (noteId: string, note: any, sourceUrl: string): string => {
+  let token = note.xsecToken;
+  if (!token) {
+    try {
+      token = new URL(sourceUrl).searchParams.get('xsec_token') || undefined;
+    } catch {
+      // sourceUrl may be share text rather than a bare URL
+    }
+  }
+  const base = `https://www.xiaohongshu.com/explore/${noteId}`;
+  return token ? `${base}?xsec_token=${encodeURIComponent(token)}` : base;
+};
+
+// Maps a raw note record onto the app's post model
+export const buildPostFromNote = (note: any, sourceUrl: string): XhsPost => {
+  // Images (for video notes the image list only holds the cover)
+  const noteId = note.noteId || note.id;
+  const isVideoNote = note.type === 'video';
+  const imageList = note.imageList || [];
+  const images: XhsImage[] = imageList.map((img: any, index: number): XhsImage => {
+    let originalUrl = img.urlDefault || img.url || '';
+    
+    // Standardize HTTPS
+    originalUrl = toHttps(originalUrl);
+
+    // Clean URL logic
+    let cleanUrl = originalUrl;
+    if (cleanUrl.includes('!')) {
+      cleanUrl = cleanUrl.split('!')[0];
+    }
+
+    // Live Photos carry their motion clip in a per-image stream object
+    const motionUrl = img.livePhoto ? pickStreamUrl(img.stream) : undefined;
+
+    return {
+      // Fallback ids include the note id so they stay unique across queued posts
+      id: img.fileId || `img_${noteId}_${index}`,
+      kind: motionUrl ? 'live' : 'image',
+      url: cleanUrl,
+      previewUrl: originalUrl,
+      videoUrl: motionUrl,
+      width: img.width || 1080,
+      height: img.height || 1440,
+      sizeDeclared: !!(img.width && img.height),
+      aiName: undefined
+    };
+  });
+
+  // Video
+  let media: XhsImage[] = images;
+  if (isVideoNote) {
+    const video = note.video || {};
+    const stream = video.media?.stream;
+    const originKey = video.consumer?.originVideoKey;
+    // The origin key points at the un-transcoded upload, so prefer it over stream renditions
+    const videoUrl = originKey
+      ? `https://sns-video-bd.xhscdn.com/${originKey}`
+      : pickStreamUrl(stream);
+
+    if (!videoUrl) {
+      throw new XhsParseError('VIDEO_URL_MISSING', `note ${noteId}`);
+    }
+
+    const cover = images[0];
+    const rendition = STREAM_CODECS.map(codec => stream?.[codec]?.[0]).find(Boolean);
+    media = [{
+      id: video.media?.videoId ? `video_${video.media.videoId}` : `video_${noteId}`,
+      kind: 'video',
+      url: videoUrl,
+      previewUrl: cover?.previewUrl || '',
+      width: rendition?.width || cover?.width || 1080,
+      height: rendition?.height || cover?.height || 1440,
+      sizeDeclared: !!(rendition?.width && rendition?.height),
+      aiName: undefined
+    }];
+  }
+
+  if (media.length === 0) {
+    throw new XhsParseError('NO_MEDIA', `note ${noteId}`);
+  }
+
+  return {
+    id: noteId,
+    noteType: isVideoNote ? 'video' : 'image',
+    title: note.title || note.desc?.slice(0, 50) || '无标题',
+    author: note.user?.nickname || '匿名用户',
+    authorAvatar: note.user?.avatar || '',
+    images: media,
+    timestamp: note.time || Date.now(),
+    sourceUrl,
+    noteUrl: buildNoteUrl(noteId, note, sourceUrl),
+    desc: (note.desc || '').replace(HASHTAG_MARKUP, '#$1'),
+    tags: extractTags(note),
+    stats: {
+      likes: parseCount(note.interactInfo?.likedCount),
+      collects: parseCount(note.interactInfo?.collectedCount),
+      comments: parseCount(note.interactInfo?.commentCount),
+      shares: parseCount(note.interactInfo?.shareCount),
+    },
+    ipLocation: note.ipLocation || undefined,
+  };
+};
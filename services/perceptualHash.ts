@@ -0,0 +1,111 @@
+import { PerceptualHash, DownloadRecord } from '../types';
+
+// Perceptual hashes for spotting the same picture twice, even re-encoded,
+// resized or lightly cropped. Both hashes are 64 bits, stored as 16 hex chars:
+//   aHash: 8x8 grayscale, bit = pixel brighter than the mean
+//   dHash: 9x8 grayscale, bit = pixel brighter than its right neighbour
+// Two images count as duplicates when both hashes are within a few bits.
+// Flat pictures (plain colour, text on a blank card) hash to almost all zeros
+// and would all match each other, so they are never compared.
+
+const A_HASH_THRESHOLD = 5;
+const D_HASH_THRESHOLD = 6;
+const MIN_DETAIL_BITS = 8; // Set and unset dHash bits an image needs to be compared
+
+// Draws the image at a tiny size and returns its luminance, row by row
+const readGrayscale = (bitmap: ImageBitmap, width: number, height: number): number[] => {
+  const canvas = typeof OffscreenCanvas !== 'undefined'
+    ? new OffscreenCanvas(width, height)
+    : Object.assign(document.createElement('canvas'), { width, height });
+  const ctx = canvas.getContext('2d') as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const gray: number[] = [];
+  for (let i = 0; i < data.length; i += 4) {
+    gray.push(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
+  }
+  return gray;
+};
+
+const bitsToHex = (bits: boolean[]): string => {
+  let hex = '';
+  for (let i = 0; i < bits.length; i += 4) {
+    hex += ((+bits[i] << 3) | (+bits[i + 1] << 2) | (+bits[i + 2] << 1) | +bits[i + 3]).toString(16);
+  }
+  return hex;
+};
+
+export const computePerceptualHash = async (blob: Blob): Promise<PerceptualHash> => {
+  // Let the decoder downscale first; hashing a 4K bitmap directly would be slow
+  const bitmap = await createImageBitmap(blob, { resizeWidth: 64, resizeHeight: 64, resizeQuality: 'medium' });
+  try {
+    const small = readGrayscale(bitmap, 8, 8);
+    const mean = small.reduce((sum, v) => sum + v, 0) / small.length;
+    const aHash = bitsToHex(small.map(v => v > mean));
+
+    const wide = readGrayscale(bitmap, 9, 8);
+    const dBits: boolean[] = [];
+    for (let row = 0; row < 8; row++) {
+      for (let col = 0; col < 8; col++) {
+        dBits.push(wide[row * 9 + col] > wide[row * 9 + col + 1]);
+      }
+    }
+    return { aHash, dHash: bitsToHex(dBits) };
+  } finally {
+    bitmap.close();
+  }
+};
+
+const popcount4 = [0, 1, 1, 2, 1, 2, 2, 3, 1, 2, 2, 3, 2, 3, 3, 4];
+
+export const hammingDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    distance += popcount4[parseInt(a[i], 16) ^ parseInt(b[i], 16)];
+  }
+  return distance;
+};
+
+const hasDetail = ({ dHash }: PerceptualHash): boolean => {
+  const bits = hammingDistance(dHash, '0'.repeat(dHash.length));
+  return bits >= MIN_DETAIL_BITS && dHash.length * 4 - bits >= MIN_DETAIL_BITS;
+};
+
+export const isSimilarImage = (a: PerceptualHash, b: PerceptualHash): boolean =>
+  hasDetail(a) && hasDetail(b) &&
+  hammingDistance(a.dHash, b.dHash) <= D_HASH_THRESHOLD && hammingDistance(a.aHash, b.aHash) <= A_HASH_THRESHOLD;
+
+export interface DuplicateMatch {
+  kind: 'post' | 'saved'; // Repeats an earlier image of the same note, or one downloaded before
+  imageId: string; // The image it repeats
+  postId: string;
+}
+
+// Flags every image that repeats an earlier one in its note (the first copy
+// stays unflagged) or looks like a previously downloaded image. The same
+// image id being downloaded again is not a near-duplicate; download records
+// already cover that.
+export const findDuplicates = (
+  posts: { id: string; images: { id: string }[] }[],
+  hashes: Map<string, PerceptualHash>,
+  saved: DownloadRecord[]
+): Map<string, DuplicateMatch> => {
+  const result = new Map<string, DuplicateMatch>();
+  posts.forEach(post => {
+    const seen: { id: string; hash: PerceptualHash }[] = [];
+    post.images.forEach(image => {
+      const hash = hashes.get(image.id);
+      if (!hash) return;
+      const earlier = seen.find(other => isSimilarImage(other.hash, hash));
+      if (earlier) {
+        result.set(image.id, { kind: 'post', imageId: earlier.id, postId: post.id });
+      } else {
+        const previous = saved.find(record => record.imageId !== image.id && record.phash && isSimilarImage(record.phash, hash));
+        if (previous) result.set(image.id, { kind: 'saved', imageId: previous.imageId, postId: previous.postId });
+      }
+      seen.push({ id: image.id, hash });
+    });
+  });
+  return result;
+};
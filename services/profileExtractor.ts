@@ -0,0 +1,71 @@
+import { XhsProfile, XhsProfileNote } from '../types';
+import { extractStateFromHtml, parseCount } from './noteExtractor';
+import { XhsParseError } from './xhsErrors';
+
+// Pure extraction of an author's note list from a profile page
+// (https://www.xiaohongshu.com/user/profile/{userId}). Only the notes rendered
+// into the page's initial state are available; later pages come from an API
+// that requires request signatures (x-s / x-t) computed by the site's own
+// script, so the list is limited to the first page and `hasMore` says so.
+
+const PROFILE_PATH = /\/user\/profile\/([0-9a-zA-Z]+)/;
+
+const toHttps = (url: string): string =>
+  url.startsWith('http://') ? url.replace('http://', 'https://') : url;
+
+// `user.notes` is one list per profile tab (notes, collections, likes); the first is the author's own
+const locateNoteCards = (state: any): any[] => {
+  const notes = state.user?.notes;
+  if (!Array.isArray(notes)) return [];
+  const list = Array.isArray(notes[0]) ? notes[0] : notes;
+  return list.filter((item: any) => item && typeof item === 'object');
+};
+
+// Paging state of the first tab, as the page's own infinite scroll reads it
+const readHasMore = (state: any): boolean => {
+  const query = state.user?.noteQueries?.[0];
+  return query?.hasMore === true;
+};
+
+const pickCover = (cover: any): string => {
+  if (!cover) return '';
+  const fromInfo = (cover.infoList || []).find((info: any) => info?.imageScene === 'WB_DFT')?.url;
+  return toHttps(cover.urlDefault || fromInfo || cover.url || cover.urlPre || '');
+};
+
+const buildProfileNote = (item: any): XhsProfileNote | null => {
+  const card = item.noteCard || item;
+  const id = card.noteId || item.id;
+  if (!id) return null;
+  const token = card.xsecToken || item.xsecToken;
+  const base = `https://www.xiaohongshu.com/explore/${id}`;
+  return {
+    id,
+    title: card.displayTitle || card.title || '无标题',
+    noteType: card.type === 'video' ? 'video' : 'image',
+    cover: pickCover(card.cover),
+    likes: parseCount(card.interactInfo?.likedCount),
+    noteUrl: token ? `${base}?xsec_token=${encodeURIComponent(token)}&xsec_source=pc_user` : base,
+  };
+};
+
+export const extractProfileFromHtml = (html: string, sourceUrl: string): XhsProfile => {
+  const state = extractStateFromHtml(html);
+  const basicInfo = state?.user?.userPageData?.basicInfo;
+  const cards = locateNoteCards(state ?? {});
+  if (!basicInfo && cards.length === 0) {
+    throw new XhsParseError('PROFILE_NOT_FOUND', `state keys: ${Object.keys(state ?? {}).join(', ')}`);
+  }
+
+  const notes = cards.map(buildProfileNote).filter((note): note is XhsProfileNote => note !== null);
+  return {
+    userId: sourceUrl.match(PROFILE_PATH)?.[1] || basicInfo?.redId || '',
+    nickname: basicInfo?.nickname || cards[0]?.noteCard?.user?.nickname || '未知博主',
+    avatar: toHttps(basicInfo?.imageb || basicInfo?.images || ''),
+    desc: basicInfo?.desc || '',
+    sourceUrl,
+    // Pinned notes can appear twice
+    notes: notes.filter((note, i) => notes.findIndex(n => n.id === note.id) === i),
+    hasMore: readHasMore(state ?? {}),
+  };
+};
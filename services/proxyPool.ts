@@ -0,0 +1,214 @@
+// Shared CORS proxy registry with per-proxy health scoring.
+// Both image and HTML fetching go through here, so a proxy that keeps failing
+// for one is also deprioritised for the other.
+
+// Images and videos are separate kinds: image proxies such as wsrv.nl can't carry MP4s
+export type ProxyKind = 'html' | 'image' | 'video';
+
+export interface ProxyDefinition {
+  id: string;
+  label: string;
+  // URL template. Tokens: {url} (URI-encoded target), {rawUrl} (as-is), {ts} (cache buster)
+  template: string;
+  kinds: ProxyKind[];
+  custom?: boolean; // Added by the user in settings
+  preferred?: boolean; // Always tried first while not cooling down
+  requireHeader?: string; // Response must carry this header to count as a real proxy answer
+  headers?: Record<string, string>; // Sent with every request (browsers ignore forbidden ones like User-Agent)
+}
+
+export interface ProxyHealth {
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  avgLatency: number; // Exponential moving average in ms, 0 until the first success
+  cooldownUntil: number; // Epoch ms; the proxy is skipped until then
+}
+
+export interface ProxyPoolOptions {
+  failureThreshold?: number; // Consecutive failures before a cooldown starts
+  cooldownMs?: number;
+  now?: () => number;
+}
+
+export const BUILTIN_PROXIES: ProxyDefinition[] = [
+  // Same-origin Worker proxy (worker/index.ts). Streams original bytes with the right Referer.
+  // The marker header keeps an SPA fallback page (e.g. the Vite dev server) from passing as HTML.
+  { id: 'self-html', label: 'RedSaver Worker', template: '/api/html?url={url}', kinds: ['html'], preferred: true, requireHeader: 'x-redsaver-proxy' },
+  { id: 'self-media', label: 'RedSaver Worker', template: '/api/image?url={url}', kinds: ['image', 'video'], preferred: true, requireHeader: 'x-redsaver-proxy' },
+  // WSRV: Strongest image processing proxy. TUNED FOR MAX QUALITY: q=100 (Max quality). Images only.
+  { id: 'wsrv', label: 'wsrv.nl', template: 'https://wsrv.nl/?url={url}&q=100&t={ts}', kinds: ['image'] },
+  // CORS Proxy: high-performance, first choice for HTML
+  { id: 'corsproxy', label: 'corsproxy.io', template: 'https://corsproxy.io/?{url}', kinds: ['html', 'image', 'video'] },
+  // CodeTabs: Transparent proxy (Best for 1:1 original quality if it works)
+  { id: 'codetabs', label: 'CodeTabs', template: 'https://api.codetabs.com/v1/proxy?quest={url}', kinds: ['html', 'image', 'video'] },
+  // AllOrigins: Raw proxy
+  { id: 'allorigins', label: 'AllOrigins', template: 'https://api.allorigins.win/raw?url={url}', kinds: ['html', 'image', 'video'] },
+  // ThingProxy: Another fallback
+  { id: 'thingproxy', label: 'ThingProxy', template: 'https://thingproxy.freeboard.io/fetch/{url}', kinds: ['html', 'image', 'video'] },
+];
+
+// Plain fetches with the headers Xiaohongshu expects from a browser, for
+// runtimes without CORS such as Node (the same headers worker/index.ts sends)
+export const DIRECT_PROXIES: ProxyDefinition[] = [
+  {
+    id: 'direct',
+    label: 'Direct',
+    template: '{rawUrl}',
+    kinds: ['html', 'image', 'video'],
+    headers: {
+      'user-agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0 Safari/537.36',
+      'accept-language': 'zh-CN,zh;q=0.9',
+      'referer': 'https://www.xiaohongshu.com/',
+    },
+  },
+];
+
+const EMPTY_HEALTH: ProxyHealth = {
+  successes: 0,
+  failures: 0,
+  consecutiveFailures: 0,
+  avgLatency: 0,
+  cooldownUntil: 0,
+};
+
+// Templates must be absolute http(s) URLs that reference the target somewhere
+export const isValidProxyTemplate = (template: string): boolean =>
+  /^https?:\/\/\S+$/.test(template) && /\{(url|rawUrl)\}/.test(template);
+
+export const buildProxyUrl = (template: string, targetUrl: string, ts: number = Date.now()): string =>
+  template
+    .replace(/\{url\}/g, encodeURIComponent(targetUrl))
+    .replace(/\{rawUrl\}/g, targetUrl)
+    .replace(/\{ts\}/g, String(ts));
+
+// Turns user-entered templates (one per line) into proxy definitions usable for every kind
+export const parseCustomProxies = (text: string): ProxyDefinition[] =>
+  text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(isValidProxyTemplate)
+    .map(template => ({
+      // Keyed by template so health survives re-saving the list in a different order
+      id: `custom:${template}`,
+      label: template.match(/^https?:\/\/([^/?#]+)/)?.[1] || template,
+      template,
+      kinds: ['html', 'image', 'video'] as ProxyKind[],
+      custom: true,
+    }));
+
+export const createProxyPool = (builtins: ProxyDefinition[] = BUILTIN_PROXIES, options: ProxyPoolOptions = {}) => {
+  const failureThreshold = options.failureThreshold ?? 3;
+  const cooldownMs = options.cooldownMs ?? 5 * 60 * 1000;
+  const now = options.now ?? Date.now;
+
+  let customProxies: ProxyDefinition[] = [];
+  const health = new Map<string, ProxyHealth>();
+
+  const getHealth = (id: string): ProxyHealth => health.get(id) || EMPTY_HEALTH;
+
+  // Laplace-smoothed success rate, lightly penalised by latency so that
+  // a fast proxy wins a tie against a slow one with the same record
+  const score = (id: string): number => {
+    const h = getHealth(id);
+    const successRate = (h.successes + 1) / (h.successes + h.failures + 2);
+    const latencyPenalty = Math.min(h.avgLatency / 20000, 0.25);
+    return successRate - latencyPenalty;
+  };
+
+  const allProxies = (): ProxyDefinition[] => [...customProxies, ...builtins];
+
+  // Candidates for a request, best first. Proxies in cooldown are skipped unless
+  // every candidate is cooling down, in which case they are all tried anyway.
+  const getCandidates = (kind: ProxyKind): ProxyDefinition[] => {
+    const eligible = allProxies().filter(p => p.kinds.includes(kind));
+    const available = eligible.filter(p => getHealth(p.id).cooldownUntil <= now());
+    const pool = available.length > 0 ? available : eligible;
+    // Array.prototype.sort is stable, so user proxies keep their lead on equal scores
+    return [...pool].sort((a, b) =>
+      Number(!!b.preferred) - Number(!!a.preferred) || score(b.id) - score(a.id)
+    );
+  };
+
+  const reportSuccess = (id: string, latencyMs: number) => {
+    const h = getHealth(id);
+    health.set(id, {
+      successes: h.successes + 1,
+      failures: h.failures,
+      consecutiveFailures: 0,
+      avgLatency: h.avgLatency === 0 ? latencyMs : Math.round(h.avgLatency * 0.7 + latencyMs * 0.3),
+      cooldownUntil: 0,
+    });
+  };
+
+  const reportFailure = (id: string) => {
+    const h = getHealth(id);
+    const consecutiveFailures = h.consecutiveFailures + 1;
+    health.set(id, {
+      ...h,
+      failures: h.failures + 1,
+      consecutiveFailures,
+      cooldownUntil: consecutiveFailures >= failureThreshold ? now() + cooldownMs : h.cooldownUntil,
+    });
+  };
+
+  const setCustomProxies = (proxies: ProxyDefinition[]) => {
+    customProxies = proxies;
+  };
+
+  const getSnapshot = () =>
+    allProxies().map(p => ({ ...p, health: getHealth(p.id), score: score(p.id) }));
+
+  // Tries candidates in score order until `consume` accepts a response.
+  // `consume` should throw to reject a response (bad status, error page, etc.).
+  const fetchThrough = async <T>(
+    targetUrl: string,
+    kind: ProxyKind,
+    consume: (response: Response, proxy: ProxyDefinition) => Promise<T>, // Also told which proxy answered
+    init?: RequestInit
+  ): Promise<T> => {
+    const candidates = getCandidates(kind);
+    let lastError: any;
+
+    for (const proxy of candidates) {
+      const startedAt = now();
+      try {
+        const requestInit = proxy.headers ? { ...init, headers: { ...proxy.headers, ...init?.headers } } : init;
+        const response = await fetch(buildProxyUrl(proxy.template, targetUrl), requestInit);
+        if (!response.ok) {
+          throw new Error(`Status ${response.status}`);
+        }
+        if (proxy.requireHeader && !response.headers.has(proxy.requireHeader)) {
+          throw new Error(`Missing ${proxy.requireHeader} header (proxy not deployed here)`);
+        }
+        // Time to headers: the body's size, and any pause while it is read, say nothing about the proxy
+        const latencyMs = now() - startedAt;
+        const result = await consume(response, proxy);
+        reportSuccess(proxy.id, latencyMs);
+        return result;
+      } catch (err) {
+        // A cancelled request says nothing about the proxy; stop without trying the rest
+        if (init?.signal?.aborted) throw err;
+        console.warn(`Proxy ${proxy.label} failed`, err);
+        reportFailure(proxy.id);
+        lastError = err;
+      }
+    }
+
+    throw lastError || new Error(`No proxy available for ${kind}`);
+  };
+
+  return {
+    getCandidates,
+    reportSuccess,
+    reportFailure,
+    setCustomProxies,
+    getSnapshot,
+    fetchThrough,
+  };
+};
+
+export type ProxyPool = ReturnType<typeof createProxyPool>;
+
+// App-wide pool shared by every service
+export const proxyPool = createProxyPool();
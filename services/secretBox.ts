@@ -0,0 +1,69 @@
+// Passphrase encryption for secrets kept on this device (the naming API key).
+// PBKDF2-SHA256 derives an AES-GCM key; salt and IV are random per encryption,
+// so the stored box reveals nothing without the passphrase.
+
+export interface EncryptedSecret {
+  algorithm: 'AES-GCM';
+  kdf: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: string; // base64
+  iv: string; // base64
+  ciphertext: string; // base64
+}
+
+const PBKDF2_ITERATIONS = 250_000;
+
+export const isWebCryptoAvailable = (): boolean =>
+  typeof crypto !== 'undefined' && !!crypto.subtle;
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const encryptSecret = async (plaintext: string, passphrase: string): Promise<EncryptedSecret> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+  return {
+    algorithm: 'AES-GCM',
+    kdf: 'PBKDF2-SHA256',
+    iterations: PBKDF2_ITERATIONS,
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  };
+};
+
+// AES-GCM authenticates the data, so a wrong passphrase fails instead of returning garbage
+export const decryptSecret = async (box: EncryptedSecret, passphrase: string): Promise<string> => {
+  const key = await deriveKey(passphrase, fromBase64(box.salt), box.iterations);
+  try {
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(box.iv) }, key, fromBase64(box.ciphertext));
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    throw new Error('口令错误');
+  }
+};
+
+export const isEncryptedSecret = (value: any): value is EncryptedSecret =>
+  !!value &&
+  value.algorithm === 'AES-GCM' &&
+  typeof value.iterations === 'number' &&
+  ['salt', 'iv', 'ciphertext'].every(field => typeof value[field] === 'string');
@@ -0,0 +1,120 @@
+import { DownloadMode } from '../types';
+import { NamingConfig, NAMING_PROVIDERS, getNamingProvider } from './namingProviders';
+import { NAMING_LANGUAGES } from './nameValidator';
+import { DEFAULT_FILENAME_TEMPLATE } from './filenameTemplate';
+import { EncryptedSecret, isEncryptedSecret } from './secretBox';
+import { ImageExportOptions, DEFAULT_EXPORT_OPTIONS, EXPORT_FORMATS } from './imageExport';
+import { ConflictPolicy, CONFLICT_POLICIES } from './directoryStore';
+
+// User preferences, persisted in localStorage and portable as a JSON file.
+// The API key itself is never stored in the clear: it either stays in memory
+// or is saved as a passphrase-encrypted box.
+
+export interface AppSettings {
+  naming: Omit<NamingConfig, 'apiKey'>;
+  encryptedApiKey: EncryptedSecret | null;
+  filenameTemplate: string;
+  exportMetadata: boolean;
+  skipDuplicates: boolean; // Deselect near-duplicate images before downloading
+  downloadConcurrency: number;
+  downloadMode: DownloadMode;
+  conflictPolicy: ConflictPolicy; // Folder mode: what to do when a file already exists
+  customProxyText: string;
+  imageExport: ImageExportOptions;
+}
+
+const STORAGE_KEY = 'redsaver:settings';
+const EXPORT_FORMAT = 'redsaver-settings';
+const EXPORT_VERSION = 1;
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  naming: {
+    provider: 'gemini',
+    model: getNamingProvider('gemini').defaultModel,
+    baseUrl: '',
+    language: 'en',
+    promptTemplate: '',
+  },
+  encryptedApiKey: null,
+  filenameTemplate: DEFAULT_FILENAME_TEMPLATE,
+  exportMetadata: false,
+  skipDuplicates: false,
+  downloadConcurrency: 2,
+  downloadMode: 'files',
+  conflictPolicy: 'skip',
+  customProxyText: '',
+  imageExport: DEFAULT_EXPORT_OPTIONS,
+};
+
+const pick = <T>(value: unknown, fallback: T, isValid: (v: any) => boolean): T =>
+  value !== undefined && isValid(value) ? (value as T) : fallback;
+
+const isString = (v: any) => typeof v === 'string';
+
+// Fills gaps and drops invalid fields, so stale or hand-edited data never breaks the app
+const normalizeSettings = (raw: any): AppSettings => {
+  const naming = raw?.naming ?? {};
+  const imageExport = raw?.imageExport ?? {};
+  const d = DEFAULT_SETTINGS;
+  return {
+    naming: {
+      provider: pick(naming.provider, d.naming.provider, v => NAMING_PROVIDERS.some(p => p.id === v)),
+      model: pick(naming.model, d.naming.model, isString),
+      baseUrl: pick(naming.baseUrl, d.naming.baseUrl, isString),
+      language: pick(naming.language, d.naming.language, v => NAMING_LANGUAGES.some(l => l.id === v)),
+      promptTemplate: pick(naming.promptTemplate, d.naming.promptTemplate, isString),
+    },
+    encryptedApiKey: pick(raw?.encryptedApiKey, d.encryptedApiKey, isEncryptedSecret),
+    filenameTemplate: pick(raw?.filenameTemplate, d.filenameTemplate, isString),
+    exportMetadata: pick(raw?.exportMetadata, d.exportMetadata, v => typeof v === 'boolean'),
+    skipDuplicates: pick(raw?.skipDuplicates, d.skipDuplicates, v => typeof v === 'boolean'),
+    downloadConcurrency: pick(raw?.downloadConcurrency, d.downloadConcurrency, v => Number.isInteger(v) && v >= 1 && v <= 6),
+    downloadMode: pick(raw?.downloadMode, d.downloadMode, v => v === 'files' || v === 'zip' || v === 'folder'),
+    conflictPolicy: pick(raw?.conflictPolicy, d.conflictPolicy, v => CONFLICT_POLICIES.some(p => p.id === v)),
+    customProxyText: pick(raw?.customProxyText, d.customProxyText, isString),
+    imageExport: {
+      format: pick(imageExport.format, d.imageExport.format, v => EXPORT_FORMATS.some(f => f.id === v)),
+      quality: pick(imageExport.quality, d.imageExport.quality, v => typeof v === 'number' && v >= 0.5 && v <= 1),
+      maxLongEdge: pick(imageExport.maxLongEdge, d.imageExport.maxLongEdge, v => Number.isInteger(v) && v >= 0),
+      keepExif: pick(imageExport.keepExif, d.imageExport.keepExif, v => typeof v === 'boolean'),
+    },
+  };
+};
+
+export const loadSettings = (): AppSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? normalizeSettings(JSON.parse(stored)) : DEFAULT_SETTINGS;
+  } catch (err) {
+    // Blocked storage (private mode) or corrupt JSON: run with defaults
+    console.warn('Failed to load settings', err);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const persistSettings = (settings: AppSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.warn('Failed to save settings', err);
+  }
+};
+
+export const exportSettings = (settings: AppSettings): Blob =>
+  new Blob(
+    [JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, exportedAt: new Date().toISOString(), settings }, null, 2)],
+    { type: 'application/json' }
+  );
+
+export const parseSettingsFile = (text: string): AppSettings => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('设置文件不是有效的 JSON');
+  }
+  if (data?.format !== EXPORT_FORMAT || typeof data.settings !== 'object') {
+    throw new Error('不是 RedSaver 导出的设置文件');
+  }
+  return normalizeSettings(data.settings);
+};
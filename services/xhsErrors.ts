@@ -0,0 +1,41 @@
+// Typed failure reasons for note parsing. Services throw codes; the UI turns
+// them into user-facing text through describeXhsError().
+
+export type XhsErrorCode =
+  | 'INVALID_LINK'        // No xiaohongshu.com / xhslink.com URL in the input
+  | 'SHORT_LINK_UNRESOLVED' // xhslink.com short link did not lead to a note or profile URL
+  | 'FETCH_FAILED'        // Every HTML proxy failed
+  | 'STATE_NOT_FOUND'     // Page has no initial-state script (layout changed or blocked)
+  | 'STATE_PARSE_FAILED'  // Initial-state script is not a readable literal
+  | 'NOTE_NOT_FOUND'      // State parsed, but no known schema holds a note (captcha/login wall)
+  | 'VIDEO_URL_MISSING'   // Video note without any stream URL
+  | 'NO_MEDIA'            // Note has neither images nor video
+  | 'PROFILE_NOT_FOUND';  // Profile page state has no user or note list (captcha/login wall)
+
+export class XhsParseError extends Error {
+  code: XhsErrorCode;
+
+  constructor(code: XhsErrorCode, detail?: string) {
+    super(detail ? `${code}: ${detail}` : code);
+    this.name = 'XhsParseError';
+    this.code = code;
+  }
+}
+
+const ERROR_MESSAGES: Record<XhsErrorCode, string> = {
+  INVALID_LINK: '未检测到有效的小红书链接',
+  SHORT_LINK_UNRESOLVED: '短链接解析失败，请复制完整的笔记链接',
+  FETCH_FAILED: '无法获取笔记页面内容 (所有代理均失败)',
+  STATE_NOT_FOUND: '无法解析帖子数据 (页面结构已变更或被拦截)',
+  STATE_PARSE_FAILED: '帖子数据解析异常',
+  NOTE_NOT_FOUND: '未找到笔记详情数据 (可能需要验证码或登录)',
+  VIDEO_URL_MISSING: '视频笔记中未找到视频地址 (可能需要登录)',
+  NO_MEDIA: '该笔记中没有可下载的图片或视频',
+  PROFILE_NOT_FOUND: '未找到博主主页数据 (可能需要验证码或登录)',
+};
+
+export const isXhsParseError = (error: unknown): error is XhsParseError =>
+  error instanceof XhsParseError;
+
+export const describeXhsError = (error: unknown, fallback = '解析失败，请检查链接是否正确'): string =>
+  isXhsParseError(error) ? ERROR_MESSAGES[error.code] : fallback;
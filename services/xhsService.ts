@@ -1,56 +1,63 @@
-import { XhsPost, XhsImage } from '../types';
-
-// Using a high-performance public CORS proxy to bypass browser restrictions for HTML fetching
-export const CORS_PROXY = 'https://corsproxy.io/?';
-
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-// Helper function to fetch image blob with retry logic using multiple proxies
-export const fetchBlobWithRetry = async (url: string): Promise<Blob> => {
-  const cacheBuster = Date.now();
-  
-  // Proxy Pool Strategy
-  const proxies = [
-    // 1. WSRV: Strongest image processing proxy. 
-    // TUNED FOR MAX QUALITY: q=100 (Max quality).
-    (u: string) => `https://wsrv.nl/?url=${encodeURIComponent(u)}&q=100&t=${cacheBuster}`,
-    
-    // 2. CodeTabs: Transparent proxy (Best for 1:1 original quality if it works)
-    (u: string) => `https://api.codetabs.com/v1/proxy?quest=${encodeURIComponent(u)}`,
-    
-    // 3. AllOrigins: Raw proxy
-    (u: string) => `https://api.allorigins.win/raw?url=${encodeURIComponent(u)}`,
-
-    // 4. CORS Proxy: Fallback
-    (u: string) => `https://corsproxy.io/?${encodeURIComponent(u)}`,
-    
-    // 5. ThingProxy: Another fallback
-    (u: string) => `https://thingproxy.freeboard.io/fetch/${encodeURIComponent(u)}`
-  ];
-
-  let lastError: any;
-
-  for (let i = 0; i < proxies.length; i++) {
-    const buildProxyUrl = proxies[i];
-    try {
-      const proxyUrl = buildProxyUrl(url);
-      
-      const response = await fetch(proxyUrl, {
-        cache: 'no-store',
-        credentials: 'omit'
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Status ${response.status}`);
-      }
+import { XhsPost, XhsProfile } from '../types';
+import { proxyPool, ProxyPool } from './proxyPool';
+import { extractNoteFromHtml, buildPostFromNote } from './noteExtractor';
+import { extractProfileFromHtml } from './profileExtractor';
+import { XhsParseError } from './xhsErrors';
+import { ResolvedXhsUrl, resolveXhsUrl, findXhsUrls, canonicalizeXhsUrl, findCanonicalUrlInHtml } from './xhsUrlResolver';
+
+export interface FetchBlobOptions {
+  kind?: 'image' | 'video'; // Picks proxies able to carry it; image by default
+  signal?: AbortSignal;
+  onProgress?: (loaded: number, total: number | null) => void;
+  waitIfPaused?: () => Promise<void>; // Awaited between chunks so a paused download stops reading
+}
+
+// Reads a response body chunk by chunk so callers get byte-level progress
+const readBodyWithProgress = async (response: Response, options: FetchBlobOptions): Promise<Blob> => {
+  const { onProgress, waitIfPaused } = options;
+  if (!response.body || (!onProgress && !waitIfPaused)) {
+    return response.blob();
+  }
+
+  const lengthHeader = Number(response.headers.get('content-length'));
+  const total = Number.isFinite(lengthHeader) && lengthHeader > 0 ? lengthHeader : null;
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+
+  onProgress?.(0, total);
+  while (true) {
+    if (waitIfPaused) await waitIfPaused();
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    loaded += value.length;
+    onProgress?.(loaded, total);
+  }
 
+  return new Blob(chunks as BlobPart[], { type: response.headers.get('content-type') || '' });
+};
+
+export interface FetchedMedia {
+  blob: Blob;
+  proxy: string; // Label of the proxy that served the bytes
+}
+
+// Everything that touches the network, bound to one proxy pool. The browser
+// app uses the shared CORS proxy pool below; runtimes without CORS (the Node
+// CLI) pass a pool of direct connections instead.
+export const createXhsClient = (pool: ProxyPool) => {
+  // Fetches a media file through the pool (best-scoring proxy first)
+  // and reports which proxy delivered it
+  const fetchMedia = async (url: string, options: FetchBlobOptions = {}): Promise<FetchedMedia> => {
+    return pool.fetchThrough(url, options.kind ?? 'image', async (response, proxy) => {
       // STRICT VALIDATION: Check Content-Type
       const contentType = response.headers.get('content-type');
       if (contentType && (contentType.includes('text/html') || contentType.includes('application/json'))) {
         throw new Error(`Invalid content-type: ${contentType} (Likely an error page)`);
       }
 
-      const blob = await response.blob();
+      const blob = await readBodyWithProgress(response, options);
 
       // STRICT VALIDATION: Check Size
       // Increased to 5KB (5120 bytes) to filter out 403 placeholders or empty files
@@ -58,156 +65,92 @@ export const fetchBlobWithRetry = async (url: string): Promise<Blob> => {
         throw new Error(`File too small (${blob.size} bytes). Likely a corruption or error placeholder.`);
       }
 
-      return blob; // Success!
-    } catch (err) {
-      lastError = err;
-      // Progressive delay: wait longer after each failure
-      await delay(1000 + (i * 500)); 
-    }
-  }
-
-  throw lastError || new Error("All proxies failed to download image");
-};
-
-export const parseXhsLink = async (text: string): Promise<XhsPost> => {
-  // 1. Extract URL from mixed text
-  const urlMatch = text.match(/https?:\/\/(?:[a-zA-Z]|[0-9]|[$-_@.&+]|[!*\\(\\),]|(?:%[0-9a-fA-F][0-9a-fA-F]))+/);
-  const targetUrl = urlMatch ? urlMatch[0] : text;
-
-  if (!targetUrl.includes('xiaohongshu.com') && !targetUrl.includes('xhslink.com')) {
-    throw new Error("未检测到有效的小红书链接");
-  }
-
-  // Proxy Pool for HTML
-  const htmlProxies = [
-    (u: string) => `https://corsproxy.io/?${encodeURIComponent(u)}`,
-    (u: string) => `https://api.allorigins.win/raw?url=${encodeURIComponent(u)}`,
-    (u: string) => `https://api.codetabs.com/v1/proxy?quest=${encodeURIComponent(u)}`,
-    (u: string) => `https://thingproxy.freeboard.io/fetch/${encodeURIComponent(u)}`
-  ];
-
-  let lastError: any;
-  let html = '';
+      return { blob, proxy: proxy.label }; // Success!
+    }, {
+      cache: 'no-store',
+      credentials: 'omit',
+      signal: options.signal
+    });
+  };
 
-  // 2. Fetch HTML via Proxy Rotation
-  for (let i = 0; i < htmlProxies.length; i++) {
+  const fetchBlobWithRetry = async (url: string, options: FetchBlobOptions = {}): Promise<Blob> =>
+    (await fetchMedia(url, options)).blob;
+
+  // Follows an xhslink.com redirect. The bundled Worker reports where it ended
+  // up in x-final-url, a direct fetch in response.url; third-party proxies only
+  // hand back the page, which names its own canonical URL.
+  const expandShortLink = (shortUrl: string): Promise<string> =>
+    pool.fetchThrough(shortUrl, 'html', async (response) => {
+      const redirected = [response.headers.get('x-final-url'), response.url];
+      const finalUrl = redirected.find(url => url && canonicalizeXhsUrl(url));
+      if (finalUrl) return finalUrl;
+      const pageUrl = findCanonicalUrlInHtml(await response.text());
+      if (pageUrl && canonicalizeXhsUrl(pageUrl)) return pageUrl;
+      throw new Error('Short link target not found');
+    });
+
+  // Share text -> canonical note/profile URL, expanding short links through the pool
+  const resolveShareLink = (text: string): Promise<ResolvedXhsUrl> =>
+    resolveXhsUrl(text, expandShortLink);
+
+  // Fetches a page's HTML via the pool
+  const fetchPageHtml = async (targetUrl: string): Promise<string> => {
     try {
-      const proxyUrl = htmlProxies[i](targetUrl);
-      const response = await fetch(proxyUrl);
-      
-      if (!response.ok) {
-        throw new Error(`Status ${response.status}`);
-      }
-
-      const text = await response.text();
-      // Basic validation to ensure we got some HTML
-      if (text.includes('<!DOCTYPE html>') || text.includes('<html')) {
-        html = text;
-        break;
-      } else {
+      return await pool.fetchThrough(targetUrl, 'html', async (response) => {
+        const text = await response.text();
+        // Basic validation to ensure we got some HTML
+        if (text.includes('<!DOCTYPE html>') || text.includes('<html')) {
+          return text;
+        }
         throw new Error("Invalid HTML content");
-      }
+      });
     } catch (err) {
-      console.warn(`HTML Proxy ${i + 1} failed`, err);
-      lastError = err;
-      await delay(500);
-    }
-  }
-
-  if (!html) {
-    throw lastError || new Error("无法获取笔记页面内容 (所有代理均失败)");
-  }
-
-  // 3. Extract State JSON
-  // Try __INITIAL_STATE__ first, then __INITIAL_SSR_STATE__
-  let stateMatch = html.match(/window\.__INITIAL_STATE__\s*=\s*({[\s\S]*?})(?=;?\s*<\/script>)/);
-  if (!stateMatch) {
-     stateMatch = html.match(/window\.__INITIAL_SSR_STATE__\s*=\s*({[\s\S]*?})(?=;?\s*<\/script>)/);
-  }
-
-  if (!stateMatch) {
-    // Fallback: Try to find JSON in a script tag with id="initial-state" (sometimes used)
-    const scriptMatch = html.match(/<script id="initial-state" type="application\/json">([\s\S]*?)<\/script>/);
-    if (scriptMatch) {
-        stateMatch = scriptMatch; // Reuse variable
-    } else {
-        throw new Error("无法解析帖子数据 (页面结构已变更或被拦截)");
+      console.warn("All HTML proxies failed", err);
+      throw new XhsParseError('FETCH_FAILED', (err as any)?.message);
     }
-  }
-
-  const jsonStr = stateMatch[1].replace(/undefined/g, 'null');
-  
-  let state;
-  try {
-    state = JSON.parse(jsonStr);
-  } catch (e) {
-    console.error("JSON Parse Error", e);
-    throw new Error("帖子数据解析异常");
-  }
-
-  // 4. Locate Note Data (Robust Path Finding)
-  let note = state.note?.note || state.note; // Sometimes it's directly in state.note
-  
-  // Handle noteDetailMap structure
-  if (!note && state.note?.noteDetailMap) {
-     const mapKeys = Object.keys(state.note.noteDetailMap);
-     if (mapKeys.length > 0) {
-       note = state.note.noteDetailMap[mapKeys[0]].note;
-     }
-  }
-
-  // Handle mobile/other structures
-  if (!note && state.data?.note) {
-      note = state.data.note;
-  }
-  
-  // Handle "feed" structure (sometimes seen in explore pages)
-  if (!note && state.feed?.items?.[0]?.note) {
-      note = state.feed.items[0].note;
-  }
+  };
 
-  if (!note) {
-    console.log("Parsed State:", state); // Debug log
-    throw new Error("未找到笔记详情数据 (可能需要验证码或登录)");
-  }
+  const parseXhsLink = async (text: string): Promise<XhsPost> => {
+    // 1. Resolve the share text to a canonical note URL
+    const resolved = await resolveShareLink(text);
+    if (resolved.kind !== 'note') throw new XhsParseError('INVALID_LINK', resolved.url);
+    const targetUrl = resolved.url;
 
-  // 5. Process Images
-  const imageList = note.imageList || [];
-  const images: XhsImage[] = imageList.map((img: any, index: number) => {
-    let originalUrl = img.urlDefault || img.url || '';
-    
-    // Standardize HTTPS
-    if (originalUrl.startsWith('http://')) {
-      originalUrl = originalUrl.replace('http://', 'https://');
-    }
+    // 2. Fetch HTML via the pool
+    const html = await fetchPageHtml(targetUrl);
 
-    // Clean URL logic
-    let cleanUrl = originalUrl;
-    if (cleanUrl.includes('!')) {
-      cleanUrl = cleanUrl.split('!')[0];
-    }
+    // 3. Extract the note and map it onto a post
+    const { note } = extractNoteFromHtml(html);
+    return buildPostFromNote(note, targetUrl);
+  };
 
-    return {
-      id: img.fileId || `img_${index}_${Date.now()}`,
-      url: cleanUrl,
-      previewUrl: originalUrl,
-      width: img.width || 1080,
-      height: img.height || 1440,
-      aiName: undefined
-    };
-  });
+  // Author profile page -> the author's note list (first page as rendered by the site)
+  const parseXhsProfile = async (text: string): Promise<XhsProfile> => {
+    const resolved = await resolveShareLink(text);
+    if (resolved.kind !== 'profile') throw new XhsParseError('INVALID_LINK', resolved.url);
+    const html = await fetchPageHtml(resolved.url);
+    return extractProfileFromHtml(html, resolved.url);
+  };
 
   return {
-    id: note.noteId || note.id,
-    title: note.title || note.desc?.slice(0, 50) || '无标题',
-    author: note.user?.nickname || '匿名用户',
-    authorAvatar: note.user?.avatar || '',
-    images: images,
-    timestamp: note.time || Date.now(),
+    fetchMedia,
+    fetchBlobWithRetry,
+    resolveShareLink,
+    parseXhsLink,
+    parseXhsProfile,
   };
 };
 
+export type XhsClient = ReturnType<typeof createXhsClient>;
+
+// The browser app's client, on the shared proxy pool
+export const xhsClient = createXhsClient(proxyPool);
+export const { fetchMedia, fetchBlobWithRetry, resolveShareLink, parseXhsLink, parseXhsProfile } = xhsClient;
+
+// Pulls every xiaohongshu.com / xhslink.com URL out of pasted share text (deduplicated, in order)
+export const extractXhsLinks = (text: string): string[] => findXhsUrls(text);
+
 export const cleanXhsUrl = (url: string): string => {
   if (url.includes('!')) return url.split('!')[0];
   return url;
-};
\ No newline at end of file
+};
@@ -0,0 +1,124 @@
+import { XhsParseError } from './xhsErrors';
+
+// Turns whatever users paste (app share text, short links, any web URL
+// variant) into one canonical form. Network-free except for expanding
+// xhslink.com short links, which callers provide as a function.
+
+export type ResolvedXhsUrl =
+  | { kind: 'note'; noteId: string; xsecToken?: string; url: string }
+  | { kind: 'profile'; userId: string; xsecToken?: string; url: string };
+
+// Expands a short link to the URL it redirects to
+export type ShortLinkExpander = (shortUrl: string) => Promise<string>;
+
+const XHS_HOSTS = ['xiaohongshu.com', 'xhslink.com'];
+
+// A URL runs until whitespace, CJK punctuation or emoji: only printable ASCII
+// that can appear in these links is matched (no quotes, brackets or parens).
+// The scheme is optional because some share texts drop it. The host must stand
+// alone on both sides, so neither evilxiaohongshu.com nor xhslink.com.evil.io
+// passes for a Xiaohongshu link.
+const URL_PATTERN = /(?<![a-z0-9-])(?:https?:\/\/)?(?:[a-z0-9-]+\.)*(?:xiaohongshu\.com|xhslink\.com)(?![a-z0-9-]|\.[a-z0-9-])(?:\/[A-Za-z0-9\-._~:/?#@!$&*+,;=%]*)?/gi;
+
+// Trailing ASCII punctuation belongs to the sentence, not the link
+const TRAILING_PUNCTUATION = /[.,;:!?]+$/;
+
+const NOTE_ID = '[0-9a-f]{24}';
+
+// Web URL variants that carry a note id, in the order they are tried
+const NOTE_PATHS = [
+  new RegExp(`^/explore/(${NOTE_ID})`, 'i'),
+  new RegExp(`^/discovery/item/(${NOTE_ID})`, 'i'),
+  new RegExp(`^/item/(${NOTE_ID})`, 'i'),
+  new RegExp(`^/user/profile/[0-9a-z]+/(${NOTE_ID})`, 'i'), // Note opened from an author's page
+  new RegExp(`^/note/(${NOTE_ID})`, 'i'),
+];
+
+const PROFILE_PATH = /^\/user\/profile\/([0-9a-z]+)\/?$/i;
+
+const isXhsHost = (hostname: string): boolean =>
+  XHS_HOSTS.some(host => hostname === host || hostname.endsWith(`.${host}`));
+
+const isShortLinkHost = (hostname: string): boolean =>
+  hostname === 'xhslink.com' || hostname.endsWith('.xhslink.com');
+
+// Every Xiaohongshu link in share text, deduplicated, in order, with a scheme
+export const findXhsUrls = (text: string): string[] => {
+  const urls = (text.match(URL_PATTERN) || [])
+    .map(match => match.replace(TRAILING_PUNCTUATION, ''))
+    .map(match => (/^https?:\/\//i.test(match) ? match : `https://${match}`));
+  return Array.from(new Set(urls));
+};
+
+const canonicalUrl = (path: string, xsecToken?: string): string => {
+  const base = `https://www.xiaohongshu.com${path}`;
+  return xsecToken ? `${base}?xsec_token=${encodeURIComponent(xsecToken)}` : base;
+};
+
+// Recognises a full (non-short) URL; everything except the id and xsec_token is dropped
+export const canonicalizeXhsUrl = (rawUrl: string): ResolvedXhsUrl | null => {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return null;
+  }
+  if (!isXhsHost(url.hostname) || isShortLinkHost(url.hostname)) return null;
+
+  const xsecToken = url.searchParams.get('xsec_token') || undefined;
+  const path = url.pathname.replace(/\/+$/, '') || '/';
+
+  for (const pattern of NOTE_PATHS) {
+    const match = path.match(pattern);
+    if (match) {
+      const noteId = match[1].toLowerCase();
+      return { kind: 'note', noteId, xsecToken, url: canonicalUrl(`/explore/${noteId}`, xsecToken) };
+    }
+  }
+
+  const profile = path.match(PROFILE_PATH);
+  if (profile) {
+    const userId = profile[1];
+    return { kind: 'profile', userId, xsecToken, url: canonicalUrl(`/user/profile/${userId}`, xsecToken) };
+  }
+
+  return null;
+};
+
+// Resolves the first Xiaohongshu link in `text`, expanding short links on the way
+export const resolveXhsUrl = async (text: string, expandShortLink?: ShortLinkExpander): Promise<ResolvedXhsUrl> => {
+  const [first] = findXhsUrls(text);
+  if (!first) throw new XhsParseError('INVALID_LINK');
+
+  let target = first;
+  if (isShortLinkHost(new URL(first).hostname)) {
+    if (!expandShortLink) throw new XhsParseError('SHORT_LINK_UNRESOLVED', first);
+    try {
+      target = await expandShortLink(first);
+    } catch (err: any) {
+      throw new XhsParseError('SHORT_LINK_UNRESOLVED', `${first}: ${err?.message || err}`);
+    }
+  }
+
+  const resolved = canonicalizeXhsUrl(target);
+  if (!resolved) {
+    throw new XhsParseError(target === first ? 'INVALID_LINK' : 'SHORT_LINK_UNRESOLVED', target);
+  }
+  return resolved;
+};
+
+// Where a short link's page says it lives, for proxies that don't expose the redirect target
+export const findCanonicalUrlInHtml = (html: string): string | null => {
+  const patterns = [
+    /<link[^>]+rel=["']canonical["'][^>]+href=["']([^"']+)["']/i,
+    /<meta[^>]+(?:property|name)=["']og:url["'][^>]+content=["']([^"']+)["']/i,
+    /<meta[^>]+content=["']([^"']+)["'][^>]+(?:property|name)=["']og:url["']/i,
+    // Bare 30x bodies: <a href="...">Found</a>
+    /<a[^>]+href=["'](https?:\/\/(?:[a-z0-9-]+\.)*xiaohongshu\.com(?:\/[^"']*)?)["']/i,
+  ];
+  for (const pattern of patterns) {
+    const match = html.match(pattern);
+    if (match) return match[1].replace(/&amp;/g, '&');
+  }
+  return null;
+};
@@ -0,0 +1,55 @@
+import JSZip from 'jszip';
+import { XhsPost } from '../types';
+
+export interface ZipEntry {
+  fileName: string;
+  blob: Blob;
+  imageId?: string; // Absent for non-image files such as exported note metadata
+}
+
+export interface ZipGroup {
+  post: XhsPost;
+  entries: ZipEntry[];
+}
+
+const buildManifest = (group: ZipGroup) => ({
+  noteId: group.post.id,
+  title: group.post.title,
+  author: group.post.author,
+  sourceUrl: group.post.sourceUrl,
+  publishedAt: new Date(group.post.timestamp).toISOString(),
+  exportedAt: new Date().toISOString(),
+  files: group.entries.map(entry => {
+    const image = group.post.images.find(img => img.id === entry.imageId);
+    return {
+      id: entry.imageId ?? null,
+      fileName: entry.fileName,
+      ...(image?.analysis && { caption: image.analysis.caption, tags: image.analysis.tags }),
+    };
+  }),
+});
+
+// Builds a single ZIP archive in the browser from already-fetched blobs.
+// One post goes to the archive root; several posts get one folder each.
+// Every post gets a manifest.json so the archive stays traceable to its note.
+export const buildPostsZip = async (
+  groups: ZipGroup[],
+  onProgress?: (percent: number) => void
+): Promise<Blob> => {
+  const zip = new JSZip();
+  const useFolders = groups.length > 1;
+
+  groups.forEach(group => {
+    const folder = useFolders ? zip.folder(group.post.id)! : zip;
+    group.entries.forEach(entry => {
+      folder.file(entry.fileName, entry.blob);
+    });
+    folder.file('manifest.json', JSON.stringify(buildManifest(group), null, 2));
+  });
+
+  // Images are already compressed, so STORE keeps packing fast on mobile.
+  return zip.generateAsync(
+    { type: 'blob', compression: 'STORE' },
+    (meta) => onProgress?.(Math.round(meta.percent))
+  );
+};
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { createDownloadManager, DownloadJob, DownloadJobContext } from '../services/downloadManager';
+import { ImageDownloadState } from '../types';
+
+const tick = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+// A job that runs until the test settles it, like a fetch in flight
+const controllableJob = (id: string) => {
+  let finish!: () => void;
+  let fail!: (err: Error) => void;
+  let context!: DownloadJobContext;
+  let started = false;
+  const job: DownloadJob = {
+    id,
+    run: (ctx) => new Promise<void>((resolve, reject) => {
+      started = true;
+      context = ctx;
+      finish = resolve;
+      fail = reject;
+      ctx.signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    }),
+  };
+  return { job, finish: () => finish(), fail: (err: Error) => fail(err), context: () => context, started: () => started };
+};
+
+const track = () => {
+  const states = new Map<string, ImageDownloadState>();
+  return { states, onUpdate: (id: string, state: ImageDownloadState) => { states.set(id, state); } };
+};
+
+describe('createDownloadManager', () => {
+  it('runs at most `concurrency` jobs at once and reports each outcome', async () => {
+    const { states, onUpdate } = track();
+    const jobs = ['a', 'b', 'c'].map(controllableJob);
+    const manager = createDownloadManager({ concurrency: 2, onUpdate });
+    const running = manager.run(jobs.map(j => j.job));
+
+    await tick();
+    expect(jobs.map(j => j.started())).toEqual([true, true, false]);
+    expect(states.get('c')?.status).toBe('queued');
+
+    jobs[0].context().onProgress(10, 20);
+    expect(states.get('a')).toEqual({ status: 'downloading', loaded: 10, total: 20 });
+
+    jobs[0].fail(new Error('Status 404'));
+    await tick();
+    expect(jobs[2].started()).toBe(true);
+    jobs[1].finish();
+    jobs[2].finish();
+
+    expect(await running).toEqual({ done: ['b', 'c'], failed: ['a'], cancelled: [] });
+    expect(states.get('a')).toMatchObject({ status: 'failed', loaded: 10, total: 20, error: 'Status 404' });
+    expect(states.get('b')?.status).toBe('done');
+  });
+
+  it('holds queued jobs and streamed chunks while paused', async () => {
+    const { onUpdate } = track();
+    const jobs = ['a', 'b'].map(controllableJob);
+    const manager = createDownloadManager({ concurrency: 1, onUpdate });
+    const running = manager.run(jobs.map(j => j.job));
+    await tick();
+
+    manager.pause();
+    expect(manager.isPaused()).toBe(true);
+    let chunkReleased = false;
+    jobs[0].context().waitIfPaused().then(() => { chunkReleased = true; });
+    jobs[0].finish();
+    await tick();
+    await tick();
+    expect(chunkReleased).toBe(false);
+    expect(jobs[1].started()).toBe(false);
+
+    manager.resume();
+    await tick();
+    await tick();
+    expect(chunkReleased).toBe(true);
+    expect(jobs[1].started()).toBe(true);
+    jobs[1].finish();
+    expect(await running).toEqual({ done: ['a', 'b'], failed: [], cancelled: [] });
+  });
+
+  it('cancels jobs in flight and those not started yet', async () => {
+    const { states, onUpdate } = track();
+    const jobs = ['a', 'b', 'c'].map(controllableJob);
+    const manager = createDownloadManager({ concurrency: 1, onUpdate });
+    const running = manager.run(jobs.map(j => j.job));
+    await tick();
+    jobs[0].finish();
+    await tick();
+    expect(jobs[1].started()).toBe(true);
+
+    manager.cancel();
+    expect(await running).toEqual({ done: ['a'], failed: [], cancelled: ['b', 'c'] });
+    expect(jobs[2].started()).toBe(false);
+    expect(states.get('b')).toEqual({ status: 'cancelled', loaded: 0, total: null });
+  });
+
+  it('lets a cancel end a paused run', async () => {
+    const { onUpdate } = track();
+    const jobs = ['a', 'b'].map(controllableJob);
+    const manager = createDownloadManager({ concurrency: 1, onUpdate });
+    const running = manager.run(jobs.map(j => j.job));
+    await tick();
+    manager.pause();
+    jobs[0].finish();
+    await tick();
+
+    manager.cancel();
+    expect(await running).toEqual({ done: ['a'], failed: [], cancelled: ['b'] });
+    expect(jobs[1].started()).toBe(false);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import {
+  renderFilename,
+  sanitizeFilenamePart,
+  createUniqueNamer,
+  findNameCollisions,
+  getExtFromMime,
+  buildPostFolderPath,
+} from '../services/filenameTemplate';
+import { XhsPost, XhsImage } from '../types';
+
+const post = (extra: Partial<XhsPost> = {}) => ({
+  id: 'n1',
+  author: '阿柚',
+  title: '周末去了趟杭州',
+  timestamp: new Date(2024, 4, 24, 12).getTime(),
+  ...extra,
+}) as XhsPost;
+
+const image = (extra: Partial<XhsImage> = {}) => ({ id: 'f1', ...extra }) as XhsImage;
+
+const render = (template: string, postExtra: Partial<XhsPost> = {}, imageExtra: Partial<XhsImage> = {}, ext = 'jpg') =>
+  renderFilename(template, { post: post(postExtra), image: image(imageExtra), index: 0, ext });
+
+const utf8Length = (text: string) => new TextEncoder().encode(text).length;
+
+describe('sanitizeFilenamePart', () => {
+  it('replaces separators and characters Windows rejects', () => {
+    expect(sanitizeFilenamePart('a/b\\c:d*e?f"g<h>i|j')).toBe('a_b_c_d_e_f_g_h_i_j');
+    expect(sanitizeFilenamePart('上／下＼')).toBe('上_下_');
+  });
+
+  it('drops invisible characters and collapses whitespace', () => {
+    expect(sanitizeFilenamePart(' a\u200Bb\n\n c\u3000d ')).toBe('ab c d');
+  });
+});
+
+describe('renderFilename', () => {
+  it('fills tokens and sanitises each value', () => {
+    expect(render('{author}_{title}_{index}_{date}.{ext}', { title: 'a/b: c?\n周末' }))
+      .toBe('阿柚_a_b_ c_ 周末_01_2024-05-24.jpg');
+  });
+
+  it('falls back to the default name without an AI name', () => {
+    expect(render('')).toBe('redsaver_n1_f1.jpg');
+    expect(render('{aiName}.{ext}', {}, { aiName: 'red-dress' })).toBe('red-dress.jpg');
+  });
+
+  it('adds the extension exactly once', () => {
+    expect(render('{title}')).toBe('周末去了趟杭州.jpg');
+    expect(render('{aiName}.JPG', {}, { aiName: 'cat' })).toBe('cat.jpg');
+    expect(render('{title}.{ext}', {}, {}, 'webp')).toBe('周末去了趟杭州.webp');
+  });
+
+  it('keeps unknown tokens as typed', () => {
+    expect(render('{foo}_{index}')).toBe('{foo}_01.jpg');
+  });
+
+  it('truncates long CJK and emoji names by bytes without splitting characters', () => {
+    const cjk = render('{title}.{ext}', { title: '山'.repeat(100) });
+    expect(cjk).toBe(`${'山'.repeat(65)}.jpg`);
+    expect(utf8Length(cjk)).toBeLessThanOrEqual(200);
+
+    const emoji = render('{title}.{ext}', { title: '😀'.repeat(60) });
+    expect(emoji).toBe(`${'😀'.repeat(49)}.jpg`);
+  });
+
+  it('strips leading and trailing dots and falls back when nothing is left', () => {
+    expect(render('{title}', { title: '..hidden..' })).toBe('hidden.jpg');
+    expect(render('{title}', { title: '. . .' })).toBe('redsaver_n1_f1.jpg');
+  });
+
+  it('prefixes reserved Windows names', () => {
+    expect(render('{title}', { title: 'CON' })).toBe('_CON.jpg');
+    expect(render('{title}', { title: 'lpt1' })).toBe('_lpt1.jpg');
+    expect(render('{title}', { title: 'console' })).toBe('console.jpg');
+  });
+});
+
+describe('createUniqueNamer', () => {
+  it('adds numbered suffixes, ignoring case', () => {
+    const uniqueName = createUniqueNamer();
+    expect(['a.jpg', 'A.JPG', 'a.jpg', 'b.jpg'].map(uniqueName)).toEqual(['a.jpg', 'A (2).JPG', 'a (3).jpg', 'b.jpg']);
+  });
+
+  it('handles names without an extension', () => {
+    const uniqueName = createUniqueNamer();
+    expect(['notes', 'notes', '.env', '.env'].map(uniqueName)).toEqual(['notes', 'notes (2)', '.env', '.env (2)']);
+  });
+
+  it('keeps separate batches apart', () => {
+    createUniqueNamer()('a.jpg');
+    expect(createUniqueNamer()('a.jpg')).toBe('a.jpg');
+  });
+});
+
+describe('findNameCollisions', () => {
+  it('returns every image whose name clashes, ignoring case', () => {
+    const clashes = findNameCollisions([
+      { id: '1', fileName: 'cat.jpg' },
+      { id: '2', fileName: 'dog.jpg' },
+      { id: '3', fileName: 'CAT.jpg' },
+    ]);
+    expect([...clashes].sort()).toEqual(['1', '3']);
+  });
+});
+
+describe('getExtFromMime', () => {
+  it('maps known types and falls back by media kind', () => {
+    expect(getExtFromMime('image/webp')).toBe('webp');
+    expect(getExtFromMime('video/quicktime', 'video')).toBe('mov');
+    expect(getExtFromMime('application/octet-stream')).toBe('jpg');
+    expect(getExtFromMime('application/octet-stream', 'video')).toBe('mp4');
+  });
+});
+
+describe('buildPostFolderPath', () => {
+  it('uses safe author and note folders with fallbacks', () => {
+    expect(buildPostFolderPath(post({ title: 'a/b' }))).toEqual(['阿柚', 'a_b_n1']);
+    expect(buildPostFolderPath(post({ author: '', title: '...' }))).toEqual(['unknown', 'untitled_n1']);
+  });
+});
@@ -0,0 +1,36 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+
+// Local HTTP server standing in for CORS proxies and Xiaohongshu hosts
+export interface MockServer {
+  baseUrl: string; // http://127.0.0.1:<port>, no trailing slash
+  requests: { path: string; headers: IncomingMessage['headers'] }[];
+  close: () => Promise<void>;
+}
+
+export const startMockServer = async (
+  handler: (req: IncomingMessage, res: ServerResponse, url: URL) => void | Promise<void>
+): Promise<MockServer> => {
+  const requests: MockServer['requests'] = [];
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://127.0.0.1');
+    requests.push({ path: url.pathname + url.search, headers: req.headers });
+    try {
+      await handler(req, res, url);
+    } catch (err) {
+      res.statusCode = 500;
+      res.end(String(err));
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => {
+      server.closeAllConnections();
+      server.close(err => (err ? reject(err) : resolve()));
+    }),
+  };
+};
@@ -0,0 +1,150 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  stripJpegExif,
+  stripPngMetadata,
+  stripWebpMetadata,
+  processImageForExport,
+  getSupportedExportFormats,
+  DEFAULT_EXPORT_OPTIONS,
+} from '../services/imageExport';
+
+const bytes = (...parts: (number[] | string | Uint8Array)[]): Uint8Array =>
+  new Uint8Array(parts.flatMap(part => (typeof part === 'string' ? Array.from(part, c => c.charCodeAt(0)) : Array.from(part))));
+
+const u32be = (n: number) => [n >>> 24, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff];
+const u32le = (n: number) => u32be(n).reverse();
+const ascii = (data: Uint8Array) => String.fromCharCode(...data);
+
+// PNG chunk: length, type, data, CRC (not checked by the stripper, so zeros)
+const pngChunk = (type: string, data: string) => bytes(u32be(data.length), type, data, [0, 0, 0, 0]);
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const webpChunk = (fourcc: string, data: number[] | string) => {
+  const payload = bytes(data);
+  return bytes(fourcc, u32le(payload.length), payload, payload.length % 2 ? [0] : []);
+};
+const webpFile = (...chunks: Uint8Array[]) => {
+  const body = bytes(...chunks);
+  return bytes('RIFF', u32le(body.length + 4), 'WEBP', body);
+};
+
+const jpegSegment = (marker: number, data: string) => bytes([0xff, marker], [(data.length + 2) >> 8, (data.length + 2) & 0xff], data);
+const JPEG = bytes([0xff, 0xd8], jpegSegment(0xe0, 'JFIF\0'), jpegSegment(0xe1, 'Exif\0\0GPS'), jpegSegment(0xdb, 'QT'), [0xff, 0xda, 0, 2], 'scan', [0xff, 0xd9]);
+
+describe('stripJpegExif', () => {
+  it('drops only the APP1 Exif segment', () => {
+    const stripped = stripJpegExif(JPEG);
+    expect(ascii(stripped)).not.toContain('Exif');
+    expect(ascii(stripped)).toContain('JFIF');
+    expect(ascii(stripped)).toContain('scan');
+    expect(stripped.length).toBe(JPEG.length - 13);
+  });
+});
+
+describe('stripPngMetadata', () => {
+  const png = bytes(
+    PNG_SIGNATURE,
+    pngChunk('IHDR', '1234567890123'),
+    pngChunk('iCCP', 'profile'),
+    pngChunk('tEXt', 'Author\0me'),
+    pngChunk('eXIf', 'MM\0*GPS'),
+    pngChunk('IDAT', 'pixels'),
+    pngChunk('iTXt', 'XML:com.adobe.xmp\0\0\0\0\0<x/>'),
+    pngChunk('zTXt', 'Comment\0\0z'),
+    pngChunk('IEND', ''),
+  );
+
+  it('removes EXIF and text chunks and keeps the rest in order', () => {
+    const stripped = stripPngMetadata(png);
+    expect(stripped).toEqual(bytes(
+      PNG_SIGNATURE,
+      pngChunk('IHDR', '1234567890123'),
+      pngChunk('iCCP', 'profile'),
+      pngChunk('IDAT', 'pixels'),
+      pngChunk('IEND', ''),
+    ));
+  });
+
+  it('returns the same bytes when there is nothing to strip', () => {
+    const clean = bytes(PNG_SIGNATURE, pngChunk('IHDR', '1234567890123'), pngChunk('IEND', ''));
+    expect(stripPngMetadata(clean)).toBe(clean);
+  });
+});
+
+describe('stripWebpMetadata', () => {
+  // VP8X flags: ICC (0x20) | alpha (0x10) | EXIF (0x08) | XMP (0x04)
+  const vp8x = (flags: number) => webpChunk('VP8X', [flags, 0, 0, 0, 9, 0, 0, 9, 0, 0]);
+
+  it('removes EXIF and XMP chunks, clears their flags and fixes the RIFF size', () => {
+    const webp = webpFile(vp8x(0x3c), webpChunk('ICCP', 'icc'), webpChunk('VP8 ', 'frame!'), webpChunk('EXIF', 'MM\0*GPS'), webpChunk('XMP ', '<x/>'));
+    const stripped = stripWebpMetadata(webp);
+    expect(stripped).toEqual(webpFile(vp8x(0x30), webpChunk('ICCP', 'icc'), webpChunk('VP8 ', 'frame!')));
+    expect(new DataView(stripped.buffer).getUint32(4, true)).toBe(stripped.length - 8);
+  });
+
+  it('leaves the source untouched', () => {
+    const webp = webpFile(vp8x(0x08), webpChunk('VP8L', 'lossless'), webpChunk('EXIF', 'exif'));
+    const copy = webp.slice();
+    stripWebpMetadata(webp);
+    expect(webp).toEqual(copy);
+  });
+
+  it('returns the same bytes for a simple WebP', () => {
+    const webp = webpFile(webpChunk('VP8 ', 'frame!'));
+    expect(stripWebpMetadata(webp)).toBe(webp);
+  });
+});
+
+describe('processImageForExport', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  // A canvas that, like most browsers asked for AVIF, quietly writes PNG instead
+  const stubCanvas = (encodes: string[]) => {
+    vi.stubGlobal('createImageBitmap', async () => ({ width: 4000, height: 3000, close: () => {} }));
+    vi.stubGlobal('OffscreenCanvas', class {
+      getContext() {
+        return { fillRect: () => {}, drawImage: () => {} };
+      }
+      async convertToBlob({ type }: { type: string }) {
+        return new Blob(['encoded'], { type: encodes.includes(type) ? type : 'image/png' });
+      }
+    });
+  };
+
+  const run = async (file: Uint8Array, type: string, options: Partial<typeof DEFAULT_EXPORT_OPTIONS>) => {
+    const result = await processImageForExport(new Blob([file], { type }), { ...DEFAULT_EXPORT_OPTIONS, ...options });
+    return { type: result.type, bytes: new Uint8Array(await result.arrayBuffer()) };
+  };
+
+  it('strips PNG and WebP metadata when EXIF is not kept', async () => {
+    const png = bytes(PNG_SIGNATURE, pngChunk('IHDR', '1234567890123'), pngChunk('tEXt', 'GPS\0here'), pngChunk('IEND', ''));
+    const result = await run(png, 'application/octet-stream', { keepExif: false });
+    expect(result.type).toBe('image/png');
+    expect(ascii(result.bytes)).not.toContain('GPS');
+  });
+
+  it('keeps the original file when the browser cannot encode the format', async () => {
+    stubCanvas(['image/jpeg', 'image/png', 'image/webp']);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const kept = await run(JPEG, 'image/jpeg', { format: 'avif' });
+    expect(kept).toEqual({ type: 'image/jpeg', bytes: JPEG });
+
+    const stripped = await run(JPEG, 'image/jpeg', { format: 'avif', maxLongEdge: 2048, keepExif: false });
+    expect(stripped).toEqual({ type: 'image/jpeg', bytes: stripJpegExif(JPEG) });
+  });
+
+  it('re-encodes into formats the browser supports', async () => {
+    stubCanvas(['image/jpeg', 'image/png', 'image/webp']);
+    const result = await run(JPEG, 'image/jpeg', { format: 'webp' });
+    expect(result).toEqual({ type: 'image/webp', bytes: bytes('encoded') });
+  });
+
+  it('only offers formats the browser can encode', async () => {
+    stubCanvas(['image/jpeg', 'image/png', 'image/webp']);
+    await expect(getSupportedExportFormats()).resolves.toEqual(['original', 'jpeg', 'png', 'webp']);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { parseJsLiteral, JsLiteralSyntaxError } from '../services/jsLiteralParser';
+
+const parse = (text: string) => parseJsLiteral(text).value;
+
+describe('parseJsLiteral', () => {
+  it('reads strict JSON', () => {
+    expect(parse('{"a":[1,2.5,-3e2],"b":{"c":null,"d":true,"e":"x"}}'))
+      .toEqual({ a: [1, 2.5, -300], b: { c: null, d: true, e: 'x' } });
+  });
+
+  it('turns undefined values into null', () => {
+    expect(parse('{"user":undefined,"list":[undefined,1]}')).toEqual({ user: null, list: [null, 1] });
+  });
+
+  it('leaves undefined inside strings alone', () => {
+    expect(parse('{"desc":"undefined behaviour","alt":\'is undefined\',"key":"a:undefined,"}'))
+      .toEqual({ desc: 'undefined behaviour', alt: 'is undefined', key: 'a:undefined,' });
+  });
+
+  it('keeps elisions as null', () => {
+    expect(parse('[1,,2]')).toEqual([1, null, 2]);
+    expect(parse('[,]')).toEqual([null]);
+    expect(parse('[,,3,]')).toEqual([null, null, 3]);
+  });
+
+  it('reads hex literals, signed or not', () => {
+    expect(parse('[0x1F, 0XfF, -0x10, +0x2]')).toEqual([31, 255, -16, 2]);
+  });
+
+  it('reads NaN, Infinity and signed numbers', () => {
+    const [nan, inf, negInf, pos, frac] = parse('[NaN, Infinity, -Infinity, +5, .5]');
+    expect(nan).toBeNaN();
+    expect([inf, negInf, pos, frac]).toEqual([Infinity, -Infinity, 5, 0.5]);
+  });
+
+  it('accepts unquoted keys, numeric keys, single quotes and trailing commas', () => {
+    expect(parse("{a:1, $b:'two', _c:[3,], 4:'four',}")).toEqual({ a: 1, $b: 'two', _c: [3], 4: 'four' });
+  });
+
+  it('decodes escapes', () => {
+    expect(parse(String.raw`"小红书 \x41 \u{1F600} \"q\" \n\t\\"`)).toBe('小红书 A 😀 "q" \n\t\\');
+    expect(parse('"\\/"')).toBe('/');
+  });
+
+  it('skips comments', () => {
+    expect(parse('{/* block */ "a": 1, // line\n "b": 2}')).toEqual({ a: 1, b: 2 });
+  });
+
+  it('adds a __proto__ key without touching the prototype', () => {
+    const value = parse('{"__proto__":{"polluted":true}}');
+    expect(Object.getPrototypeOf(value)).toBe(Object.prototype);
+    expect(value.__proto__).toEqual({ polluted: true });
+    expect(({} as any).polluted).toBeUndefined();
+  });
+
+  it('stops at the end of the literal and reports where', () => {
+    const script = 'window.__INITIAL_STATE__={"a":1};window.other=2';
+    const start = script.indexOf('{');
+    const { value, end } = parseJsLiteral(script, start);
+    expect(value).toEqual({ a: 1 });
+    expect(script.slice(end)).toBe(';window.other=2');
+  });
+
+  it.each([
+    ['{"a":foo}', /Unexpected identifier "foo"/],
+    ['{"a":1', /Expected "," or "}"/],
+    ['"open', /Unterminated string/],
+    ['"\\x4"', /Invalid \\x escape/],
+    ['', /Unexpected end of input/],
+  ])('rejects %j', (text, message) => {
+    expect(() => parse(text)).toThrow(JsLiteralSyntaxError);
+    expect(() => parse(text)).toThrow(message);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { validateAiName, sanitizeGeneratedName } from '../services/nameValidator';
+
+describe('validateAiName', () => {
+  it('strips quotes, extensions and extra lines', () => {
+    expect(validateAiName('"Girl in Red Dress.jpg"', 'en')).toEqual({ name: 'girl-in-red-dress' });
+    expect(validateAiName('cat-on-sofa\nThe image shows a cat.', 'en')).toEqual({ name: 'cat-on-sofa' });
+  });
+
+  it('rejects empty answers', () => {
+    expect(validateAiName(' "" ', 'en')).toEqual({ error: '模型返回了空名称' });
+    expect(validateAiName('!!!', 'en')).toEqual({ error: '名称为空: !!!' });
+  });
+
+  it('keeps English names in kebab case and rejects Chinese', () => {
+    expect(validateAiName('Café au lait', 'en')).toEqual({ name: 'cafe-au-lait' });
+    expect(validateAiName('红裙女孩', 'en')).toEqual({ error: '名称不是英文: 红裙女孩' });
+  });
+
+  it('drops pinyin tone marks', () => {
+    expect(validateAiName('Hóng Qún Nǚ Hái', 'pinyin')).toEqual({ name: 'hong-qun-nu-hai' });
+    expect(validateAiName('红裙', 'pinyin')).toEqual({ error: '名称不是拼音: 红裙' });
+  });
+
+  it('cuts long Latin names at a whole word', () => {
+    const raw = 'alpha bravo charlie delta echo foxtrot golf hotel india juliet kilo lima';
+    expect(validateAiName(raw, 'en')).toEqual({ name: 'alpha-bravo-charlie-delta-echo-foxtrot-golf-hotel-india' });
+  });
+
+  it('cleans Chinese names and limits their length', () => {
+    expect(validateAiName('「红裙 女孩！」。', 'zh')).toEqual({ name: '红裙女孩' });
+    expect(validateAiName('山'.repeat(30), 'zh')).toEqual({ name: '山'.repeat(20) });
+    expect(validateAiName('red dress', 'zh')).toEqual({ error: '名称不是中文: red dress' });
+  });
+
+  it('checks both halves of a bilingual name', () => {
+    expect(validateAiName('红裙女孩_Girl in Red Dress', 'both')).toEqual({ name: '红裙女孩_girl-in-red-dress' });
+    expect(validateAiName('girl-in-red-dress', 'both')).toEqual({ error: '缺少中英文两部分: girl-in-red-dress' });
+    expect(validateAiName('红裙_红裙', 'both')).toEqual({ error: '名称不是英文: 红裙' });
+    expect(validateAiName('red_dress', 'both')).toEqual({ error: '名称不是中文: red' });
+  });
+});
+
+describe('sanitizeGeneratedName', () => {
+  it('only makes the name filesystem safe', () => {
+    expect(sanitizeGeneratedName('城市 漫步/路线-01')).toBe('城市-漫步_路线-01');
+  });
+});
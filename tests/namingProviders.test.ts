@@ -0,0 +1,145 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { parseNamingResponse, getNamingProvider, buildNamingPrompt, NamingConfig, NamingBatch } from '../services/namingProviders';
+import { XhsPost } from '../types';
+import { startMockServer, MockServer } from './helpers/mockServer';
+
+const ENTRY = { name: 'red-dress', caption: 'A girl in a red dress.', tags: ['#Fashion', 'red', 'fashion'], text: '', category: 'Fashion' };
+
+describe('parseNamingResponse', () => {
+  it('reads the images object', () => {
+    expect(parseNamingResponse(JSON.stringify({ images: [ENTRY] }), 1)).toEqual([{
+      name: 'red-dress',
+      analysis: { caption: 'A girl in a red dress.', tags: ['fashion', 'red'], ocrText: '', category: 'fashion' },
+    }]);
+  });
+
+  it('reads bare arrays and names lists', () => {
+    expect(parseNamingResponse('["a", "b"]', 2)).toEqual([{ name: 'a' }, { name: 'b' }]);
+    expect(parseNamingResponse('{"names": ["a"]}', 1)).toEqual([{ name: 'a' }]);
+  });
+
+  it('strips code fences and chatter', () => {
+    const text = 'Sure! Here you go:\n```json\n{"images": [{"name": "cat-on-sofa"}]}\n```\nLet me know if you need more.';
+    expect(parseNamingResponse(text, 1)[0]?.name).toBe('cat-on-sofa');
+  });
+
+  it('stops at the end of the JSON even when braces follow it', () => {
+    const text = '{"images": [{"name": "one"}, {"name": "two"}]}\nNote: names use {kebab-case} [as asked].';
+    expect(parseNamingResponse(text, 2).map(r => r?.name)).toEqual(['one', 'two']);
+  });
+
+  it('skips bracketed prose before the JSON', () => {
+    const text = '[Image 1] and [2] are similar: {"images": [{"name": "sunset"}, {"name": "sunset-2"}]}';
+    expect(parseNamingResponse(text, 2).map(r => r?.name)).toEqual(['sunset', 'sunset-2']);
+  });
+
+  it('ignores brackets and escaped quotes inside strings', () => {
+    const text = '{"images": [{"name": "sign", "text": "OPEN } [24h] \\"7 days\\""}]} trailing }';
+    expect(parseNamingResponse(text, 1)[0]?.analysis?.ocrText).toBe('OPEN } [24h] "7 days"');
+  });
+
+  it('pads missing or unusable entries with null', () => {
+    expect(parseNamingResponse('{"images": [{"name": ""}, 42]}', 3)).toEqual([null, null, null]);
+  });
+
+  it('rejects answers without JSON', () => {
+    expect(() => parseNamingResponse('I cannot see any images.', 1)).toThrow('Naming response contained no JSON');
+    expect(() => parseNamingResponse('{"images": [', 1)).toThrow('Naming response contained no JSON');
+  });
+});
+
+describe('OpenAI-compatible provider', () => {
+  let server: MockServer;
+  let reply: { status: number; body: unknown };
+  let received: { headers: Record<string, string | string[] | undefined>; body: any }[];
+
+  beforeAll(async () => {
+    server = await startMockServer(async (req, res, url) => {
+      let raw = '';
+      for await (const chunk of req) raw += chunk;
+      received.push({ headers: req.headers, body: raw ? JSON.parse(raw) : null });
+      if (req.method !== 'POST' || url.pathname !== '/v1/chat/completions') {
+        res.statusCode = 404;
+        res.end();
+        return;
+      }
+      res.statusCode = reply.status;
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify(reply.body));
+    });
+  });
+
+  afterAll(() => server.close());
+
+  beforeEach(() => {
+    received = [];
+    reply = { status: 200, body: { choices: [{ message: { content: JSON.stringify({ images: [ENTRY, { name: 'cat' }] }) } }] } };
+  });
+
+  const provider = getNamingProvider('openai');
+
+  const config = (extra: Partial<NamingConfig> = {}): NamingConfig => ({
+    provider: 'openai',
+    apiKey: '',
+    model: 'llava:13b',
+    baseUrl: `${server.baseUrl}/v1/`,
+    language: 'en',
+    promptTemplate: '',
+    ...extra,
+  });
+
+  const batch: NamingBatch = {
+    post: { id: 'n1', title: 'Note' } as XhsPost,
+    items: [
+      { image: { id: 'a' } as any, index: 0, imageData: { base64: 'QUJD', mimeType: 'image/jpeg' } },
+      { image: { id: 'b' } as any, index: 1, imageData: { base64: 'REVG', mimeType: 'image/webp' } },
+    ],
+  };
+
+  it('posts the images and prompt as one chat message', async () => {
+    const results = await provider.nameImages(batch, config());
+    expect(results.map(r => r?.name)).toEqual(['red-dress', 'cat']);
+
+    expect(received).toHaveLength(1);
+    const [{ headers, body }] = received;
+    expect(headers['content-type']).toBe('application/json');
+    expect(headers.authorization).toBeUndefined();
+    expect(body).toMatchObject({ model: 'llava:13b', temperature: 0.2 });
+    // LM Studio rejects json_object; the prompt asks for JSON instead
+    expect(body).not.toHaveProperty('response_format');
+    expect(body.messages).toHaveLength(1);
+    expect(body.messages[0].role).toBe('user');
+    expect(body.messages[0].content).toEqual([
+      { type: 'text', text: 'Image 1:' },
+      { type: 'image_url', image_url: { url: 'data:image/jpeg;base64,QUJD' } },
+      { type: 'text', text: 'Image 2:' },
+      { type: 'image_url', image_url: { url: 'data:image/webp;base64,REVG' } },
+      { type: 'text', text: buildNamingPrompt(2, config()) },
+    ]);
+  });
+
+  it('sends the key as a bearer token when there is one', async () => {
+    await provider.nameImages(batch, config({ apiKey: 'sk-local' }));
+    expect(received[0].headers.authorization).toBe('Bearer sk-local');
+  });
+
+  it('reports error statuses', async () => {
+    reply = { status: 500, body: { error: 'model not loaded' } };
+    await expect(provider.nameImages(batch, config())).rejects.toThrow('Naming endpoint responded 500');
+  });
+
+  it('needs an endpoint and a model but no key', () => {
+    expect(provider.isConfigured(config())).toBe(true);
+    expect(provider.isConfigured(config({ baseUrl: '' }))).toBe(false);
+    expect(provider.isConfigured(config({ model: '' }))).toBe(false);
+  });
+});
+
+describe('buildNamingPrompt', () => {
+  it('fills placeholders and always appends the answer format', () => {
+    const prompt = buildNamingPrompt(3, { language: 'zh', promptTemplate: 'Name {count} pictures: {nameRule} {unknown}' });
+    expect(prompt).toMatch(/^Name 3 pictures: a very short, descriptive filename in Simplified Chinese/);
+    expect(prompt).toContain('{unknown}');
+    expect(prompt).toMatch(/Respond with JSON only.*exactly 3 entries/);
+  });
+});
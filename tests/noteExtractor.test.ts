@@ -0,0 +1,116 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { extractNoteFromHtml, buildPostFromNote, parseCount } from '../services/noteExtractor';
+import { XhsParseError } from '../services/xhsErrors';
+
+// Saved note pages, one per state layout the extractor knows about
+const fixture = (name: string): string =>
+  readFileSync(new URL(`./fixtures/notes/${name}`, import.meta.url), 'utf8');
+
+describe('extractNoteFromHtml', () => {
+  it.each([
+    ['note-detail-map.html', 'noteDetailMap', '6650a1b2000000001e03c4d5'],
+    ['note-note.html', 'note.note', '66a0b1c2000000000d00e1f2'],
+    ['note.html', 'note', '64f1e2d3000000001f00a0b1'],
+    ['data-note.html', 'data.note', '65c3d4e5000000000b01f2a3'],
+    ['feed-items.html', 'feed.items', '6612aabb000000001a02c3d4'],
+  ])('finds the note in %s', (file, schema, noteId) => {
+    const { note, schema: found } = extractNoteFromHtml(fixture(file));
+    expect(found).toBe(schema);
+    expect(note.noteId || note.id).toBe(noteId);
+  });
+
+  it('leaves "undefined" inside strings alone', () => {
+    const { note } = extractNoteFromHtml(fixture('note-detail-map.html'));
+    expect(note.desc).toContain('这次的undefined行程');
+  });
+
+  it('reports a page without state', () => {
+    expect(() => extractNoteFromHtml('<html><body>登录后查看更多</body></html>'))
+      .toThrow(expect.objectContaining({ code: 'STATE_NOT_FOUND' }));
+  });
+
+  it('reports a state it cannot parse', () => {
+    const html = '<script>window.__INITIAL_STATE__={"note":{"id":foo}}</script>';
+    expect(() => extractNoteFromHtml(html)).toThrow(XhsParseError);
+    expect(() => extractNoteFromHtml(html)).toThrow(expect.objectContaining({ code: 'STATE_PARSE_FAILED' }));
+  });
+
+  it('reports a state without a note', () => {
+    const html = '<script>window.__INITIAL_STATE__={"global":{},"user":{}}</script>';
+    expect(() => extractNoteFromHtml(html)).toThrow(expect.objectContaining({ code: 'NOTE_NOT_FOUND' }));
+  });
+});
+
+describe('buildPostFromNote', () => {
+  it('maps an image note with a Live Photo', () => {
+    const source = 'https://www.xiaohongshu.com/explore/6650a1b2000000001e03c4d5';
+    const post = buildPostFromNote(extractNoteFromHtml(fixture('note-detail-map.html')).note, source);
+
+    expect(post).toMatchObject({
+      id: '6650a1b2000000001e03c4d5',
+      noteType: 'image',
+      title: '周末去了趟杭州',
+      author: '阿柚',
+      noteUrl: 'https://www.xiaohongshu.com/explore/6650a1b2000000001e03c4d5?xsec_token=ABcdEF123%3D',
+      desc: '西湖边散步 #杭州旅行 #citywalk 这次的undefined行程',
+      tags: ['杭州旅行', 'citywalk'],
+      stats: { likes: 12000, collects: 3456, comments: 10, shares: 89 },
+      ipLocation: '浙江',
+    });
+    expect(post.images).toHaveLength(2);
+    expect(post.images[0]).toMatchObject({
+      id: '1040g008312abc',
+      kind: 'image',
+      url: 'https://sns-webpic-qc.xhscdn.com/202405241200/abc/1040g008312abc',
+      previewUrl: 'https://sns-webpic-qc.xhscdn.com/202405241200/abc/1040g008312abc!nd_dft_wlteh_webp_3',
+    });
+    expect(post.images[1]).toMatchObject({
+      kind: 'live',
+      videoUrl: 'https://sns-video-bd.xhscdn.com/stream/110/live/def.mp4',
+    });
+  });
+
+  it('prefers the origin upload for video notes', () => {
+    const post = buildPostFromNote(extractNoteFromHtml(fixture('data-note.html')).note, 'https://xhslink.com/a/AbCd');
+    expect(post.noteType).toBe('video');
+    expect(post.title).toBe('雪山日出延时 #延时摄影[话题]#');
+    expect(post.images).toEqual([expect.objectContaining({
+      id: 'video_137000000001',
+      kind: 'video',
+      url: 'https://sns-video-bd.xhscdn.com/pre_post/1040g2t030video',
+      width: 1920,
+      height: 1080,
+      sizeDeclared: true,
+    })]);
+  });
+
+  it('gives images without a file id a note-scoped fallback id', () => {
+    const post = buildPostFromNote(extractNoteFromHtml(fixture('note.html')).note, '');
+    expect(post.images.map(img => img.id)).toEqual(['1040g0k0301bb', 'img_64f1e2d3000000001f00a0b1_1']);
+    expect(post.images[0].sizeDeclared).toBe(false);
+    expect(post.stats).toEqual({ likes: 23000, collects: 9999, comments: null, shares: 12 });
+  });
+
+  it('rejects a note without media', () => {
+    const note = { noteId: 'empty', type: 'normal', imageList: [] };
+    expect(() => buildPostFromNote(note, '')).toThrow(expect.objectContaining({ code: 'NO_MEDIA' }));
+  });
+});
+
+describe('parseCount', () => {
+  it.each([
+    [12, 12],
+    ['345', 345],
+    ['1.2万', 12000],
+    ['3w', 30000],
+    ['10+', 10],
+    ['2千', 2000],
+    ['1.5亿', 150000000],
+    ['', null],
+    ['很多', null],
+    [undefined, null],
+  ])('parses %j', (input, expected) => {
+    expect(parseCount(input)).toBe(expected);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { findDuplicates, hammingDistance, isSimilarImage } from '../services/perceptualHash';
+
+const PHOTO = { aHash: 'f0e1d2c3b4a59687', dHash: '3c5a96e1d2b4780f' };
+// Re-encoded copy: two bits off in each hash
+const RECODED = { aHash: 'f0e1d2c3b4a59684', dHash: '3c5a96e1d2b4780c' };
+const OTHER = { aHash: '0f1e2d3c4b5a6978', dHash: 'c3a5691e2d4b87f0' };
+// Two different plain cards: nearly identical hashes with no detail in them
+const BLANK = { aHash: '0000000000000000', dHash: '0000000000000000' };
+const TEXT_CARD = { aHash: '0000000000000100', dHash: '0000000010000000' };
+
+describe('hammingDistance', () => {
+  it('counts differing bits across the hex string', () => {
+    expect(hammingDistance('0000', '0000')).toBe(0);
+    expect(hammingDistance('000f', '0000')).toBe(4);
+    expect(hammingDistance('ffff', '0000')).toBe(16);
+    expect(hammingDistance(PHOTO.dHash, RECODED.dHash)).toBe(2);
+  });
+});
+
+describe('isSimilarImage', () => {
+  it('matches a lightly changed copy', () => {
+    expect(isSimilarImage(PHOTO, RECODED)).toBe(true);
+  });
+
+  it('needs both hashes to be close', () => {
+    expect(isSimilarImage(PHOTO, OTHER)).toBe(false);
+    expect(isSimilarImage(PHOTO, { aHash: PHOTO.aHash, dHash: 'ffffffffd2b4780f' })).toBe(false);
+    expect(isSimilarImage(PHOTO, { aHash: 'ffff0000b4a59687', dHash: PHOTO.dHash })).toBe(false);
+  });
+
+  it('never matches flat images', () => {
+    expect(isSimilarImage(BLANK, TEXT_CARD)).toBe(false);
+    expect(isSimilarImage(BLANK, BLANK)).toBe(false);
+  });
+});
+
+describe('findDuplicates', () => {
+  const hashes = new Map([
+    ['a', PHOTO],
+    ['b', RECODED],
+    ['c', OTHER],
+    ['d', BLANK],
+    ['e', TEXT_CARD],
+  ]);
+
+  it('flags later copies within a note and keeps the first', () => {
+    const result = findDuplicates([{ id: 'p1', images: [{ id: 'a' }, { id: 'b' }, { id: 'c' }, { id: 'd' }, { id: 'e' }] }], hashes, []);
+    expect([...result]).toEqual([['b', { kind: 'post', imageId: 'a', postId: 'p1' }]]);
+  });
+
+  it('matches earlier downloads of a different image id', () => {
+    const saved = [
+      { imageId: 'old', postId: 'p0', downloadedAt: 1, phash: PHOTO },
+      { imageId: 'c', postId: 'p1', downloadedAt: 2, phash: OTHER },
+    ];
+    const result = findDuplicates([{ id: 'p2', images: [{ id: 'b' }, { id: 'c' }, { id: 'x' }] }], hashes, saved);
+    expect([...result]).toEqual([['b', { kind: 'saved', imageId: 'old', postId: 'p0' }]]);
+  });
+});
@@ -0,0 +1,202 @@
+import { readFileSync } from 'node:fs';
+import JSZip from 'jszip';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createProxyPool,
+  createXhsClient,
+  fetchPostFiles,
+  fetchPostsFiles,
+  generateSmartNames,
+  buildPostsZip,
+  buildMetadataFiles,
+  buildPostFolderPath,
+  NamingConfig,
+  XhsClient,
+} from '../lib';
+import { startMockServer, MockServer } from './helpers/mockServer';
+
+// The library end to end against a local stand-in for a CORS proxy: note pages
+// come from the saved fixtures, media from generated bytes.
+
+const NOTE_ID = '6650a1b2000000001e03c4d5';
+const NOTE_HTML = readFileSync(new URL('./fixtures/notes/note-detail-map.html', import.meta.url), 'utf8');
+const CDN = 'https://sns-webpic-qc.xhscdn.com/202405241200';
+
+const media = (type: string, fill: number) => ({ type, body: Buffer.alloc(6000, fill) });
+const MEDIA: Record<string, { type: string; body: Buffer }> = {
+  [`${CDN}/abc/1040g008312abc`]: media('image/jpeg', 1),
+  [`${CDN}/abc/1040g008312abc!nd_dft_wlteh_webp_3`]: media('image/webp', 2),
+  // The Live Photo's original is missing; its preview has to stand in
+  [`${CDN}/def/1040g008312def!nd_dft_wlteh_webp_3`]: media('image/webp', 3),
+  'https://sns-video-bd.xhscdn.com/stream/110/live/def.mp4': media('video/mp4', 4),
+};
+
+let server: MockServer;
+let client: XhsClient;
+let namingReplies: unknown[][];
+
+beforeAll(async () => {
+  server = await startMockServer(async (req, res, url) => {
+    if (url.pathname === '/v1/chat/completions') {
+      let raw = '';
+      for await (const chunk of req) raw += chunk;
+      const imageCount = JSON.parse(raw).messages[0].content.filter((part: any) => part.type === 'image_url').length;
+      const images = namingReplies.shift()?.slice(0, imageCount) ?? [];
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify({ choices: [{ message: { content: JSON.stringify({ images }) } }] }));
+      return;
+    }
+
+    const target = url.searchParams.get('u') || '';
+    const { hostname, pathname } = new URL(target);
+    if (hostname === 'xhslink.com') {
+      // Third-party proxies hand back the short link's page, not the redirect
+      res.setHeader('content-type', 'text/html');
+      res.end(`<html><head><link rel="canonical" href="https://www.xiaohongshu.com/discovery/item/${NOTE_ID}?xsec_token=ABcdEF123%3D&amp;xsec_source=app_share"></head></html>`);
+    } else if (pathname === `/explore/${NOTE_ID}`) {
+      res.setHeader('content-type', 'text/html');
+      res.end(NOTE_HTML);
+    } else if (MEDIA[target]) {
+      res.setHeader('content-type', MEDIA[target].type);
+      res.end(MEDIA[target].body);
+    } else {
+      res.statusCode = 404;
+      res.end();
+    }
+  });
+  client = createXhsClient(createProxyPool([
+    { id: 'mock', label: 'mock', template: `${server.baseUrl}/proxy?u={url}`, kinds: ['html', 'image', 'video'] },
+  ]));
+});
+
+afterAll(() => server.close());
+
+beforeEach(() => {
+  namingReplies = [];
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+const SHARE_TEXT = '48 阿柚发布了一篇小红书笔记，快来看吧！ 😆 AbCd 😆 http://xhslink.com/a/AbCdEfGhIjK，复制本条信息，打开【小红书】App查看精彩内容！';
+
+describe('library pipeline', () => {
+  it('parses a note from share text through a short link', async () => {
+    const post = await client.parseXhsLink(SHARE_TEXT);
+    expect(post).toMatchObject({
+      id: NOTE_ID,
+      author: '阿柚',
+      sourceUrl: `https://www.xiaohongshu.com/explore/${NOTE_ID}?xsec_token=ABcdEF123%3D`,
+    });
+    expect(post.images.map(img => img.kind)).toEqual(['image', 'live']);
+  });
+
+  it('fetches originals, falls back to previews and names the files', async () => {
+    const post = await client.parseXhsLink(SHARE_TEXT);
+    const done: string[] = [];
+    const { files, failed } = await fetchPostFiles(client, post, {
+      filenameTemplate: '{author}_{index}.{ext}',
+      onImageDone: id => done.push(id),
+    });
+
+    expect(failed).toEqual([]);
+    expect(done.sort()).toEqual(['1040g008312abc', '1040g008312def']);
+    expect(files.map(f => [f.fileName, f.blob.type, f.imageId])).toEqual([
+      ['阿柚_01.jpg', 'image/jpeg', '1040g008312abc'],
+      ['阿柚_02.webp', 'image/webp', '1040g008312def'],
+      ['阿柚_02.mp4', 'video/mp4', '1040g008312def'],
+    ]);
+  });
+
+  it('reports images that cannot be fetched at all', async () => {
+    const post = await client.parseXhsLink(SHARE_TEXT);
+    const broken = { ...post, images: [{ ...post.images[0], id: 'gone', url: `${CDN}/gone`, previewUrl: `${CDN}/gone!prv` }] };
+    const { files, failed } = await fetchPostFiles(client, broken, {});
+    expect(files).toEqual([]);
+    expect(failed).toEqual([{ imageId: 'gone', error: 'Status 404' }]);
+  });
+
+  it('hands each image to the hooks: prepare, progress, then the files', async () => {
+    const post = await client.parseXhsLink(SHARE_TEXT);
+    const sources: [string, string, string][] = [];
+    const delivered: [string, string[]][] = [];
+    const progress: number[] = [];
+    const { files } = await fetchPostFiles(client, post, {
+      filenameTemplate: '{index}.{ext}',
+      prepareFile: async (image, fetched) => {
+        sources.push([image.id, fetched.source, fetched.proxy]);
+        return new Blob([await fetched.blob.arrayBuffer()], { type: 'image/png' });
+      },
+      onUpdate: (id, state) => {
+        if (id === '1040g008312def' && state.status === 'downloading') progress.push(state.loaded);
+      },
+      onFiles: async (_post, image, imageFiles) => {
+        delivered.push([image.id, imageFiles.map(f => f.fileName)]);
+      },
+    });
+
+    expect(files).toEqual([]);
+    expect(sources.sort()).toEqual([
+      ['1040g008312abc', 'original', 'mock'],
+      ['1040g008312def', 'preview', 'mock'],
+    ]);
+    // The prepared type names the still; the clip keeps its own
+    expect(delivered.sort()).toEqual([
+      ['1040g008312abc', ['01.png']],
+      ['1040g008312def', ['02.png', '02.mp4']],
+    ]);
+    // The clip's bytes continue the still's progress
+    expect(Math.max(...progress)).toBe(12000);
+  });
+
+  it('names files uniquely across a batch of posts', async () => {
+    const post = await client.parseXhsLink(SHARE_TEXT);
+    const copy = { ...post, id: 'copy', images: post.images.map(img => ({ ...img, id: `${img.id}-copy` })) };
+    const results = await fetchPostsFiles(client, [post, copy], { filenameTemplate: '{author}_{index}.{ext}' });
+    expect(results.map(r => r.post.id)).toEqual([NOTE_ID, 'copy']);
+    expect(results[1].files.map(f => f.fileName)).toEqual(['阿柚_01 (2).jpg', '阿柚_02 (2).webp', '阿柚_02 (2).mp4']);
+  });
+
+  it('reports a cancelled batch', async () => {
+    const post = await client.parseXhsLink(SHARE_TEXT);
+    const { files, cancelled } = await fetchPostFiles(client, post, { onStart: manager => manager.cancel() });
+    expect(files).toEqual([]);
+    expect(cancelled.sort()).toEqual(['1040g008312abc', '1040g008312def']);
+  });
+
+  it('only fetches the requested subset', async () => {
+    const post = await client.parseXhsLink(SHARE_TEXT);
+    const { files } = await fetchPostFiles(client, post, { imageIds: new Set(['1040g008312abc']) });
+    expect(files.map(f => f.imageId)).toEqual(['1040g008312abc']);
+  });
+
+  it('names images with the heuristic provider and packs a ZIP', async () => {
+    const post = await client.parseXhsLink(SHARE_TEXT);
+    const config: NamingConfig = { provider: 'heuristic', apiKey: '', model: '', baseUrl: '', language: 'en', promptTemplate: '' };
+    const named = { ...post, images: await generateSmartNames(post, config) };
+    expect(named.images.map(img => img.aiName)).toEqual(['周末去了趟杭州-01', '周末去了趟杭州-02']);
+
+    const { files } = await fetchPostFiles(client, named);
+    const zip = await JSZip.loadAsync(await (await buildPostsZip([{ post: named, entries: [...files, ...buildMetadataFiles(named)] }])).arrayBuffer());
+    expect(Object.keys(zip.files).sort()).toEqual([
+      'manifest.json',
+      `note_${NOTE_ID}.json`,
+      `note_${NOTE_ID}.md`,
+      '周末去了趟杭州-01.jpg',
+      '周末去了趟杭州-02.mp4',
+      '周末去了趟杭州-02.webp',
+    ]);
+    expect(buildPostFolderPath(named)).toEqual(['阿柚', `周末去了趟杭州_${NOTE_ID}`]);
+  });
+
+  it('names images with an OpenAI-compatible server without touching IndexedDB', async () => {
+    const post = await client.parseXhsLink(SHARE_TEXT);
+    namingReplies = [[{ name: 'west-lake-walk', caption: 'Walking by the lake.', tags: ['travel'], text: '', category: 'travel' }, { name: '西湖散步' }]];
+    const config: NamingConfig = { provider: 'openai', apiKey: '', model: 'llava', baseUrl: `${server.baseUrl}/v1`, language: 'en', promptTemplate: '' };
+
+    const images = await generateSmartNames(post, config, { fetchImage: url => client.fetchBlobWithRetry(url) });
+    expect(images[0]).toMatchObject({ aiName: 'west-lake-walk', analysis: { caption: 'Walking by the lake.', category: 'travel' } });
+    expect(images[1].namingError).toBe('名称不是英文: 西湖散步');
+    expect(console.warn).not.toHaveBeenCalledWith('Naming cache unavailable', expect.anything());
+    expect(console.warn).not.toHaveBeenCalledWith('Failed to cache names', expect.anything());
+  });
+});
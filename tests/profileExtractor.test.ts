@@ -0,0 +1,49 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { extractProfileFromHtml } from '../services/profileExtractor';
+
+const html = readFileSync(new URL('./fixtures/profile.html', import.meta.url), 'utf8');
+const SOURCE = 'https://www.xiaohongshu.com/user/profile/5f1e2d3c000000000101abcd?xsec_source=pc_note';
+
+describe('extractProfileFromHtml', () => {
+  it('reads the author and their first page of notes', () => {
+    const profile = extractProfileFromHtml(html, SOURCE);
+    expect(profile).toMatchObject({
+      userId: '5f1e2d3c000000000101abcd',
+      nickname: '阿柚',
+      avatar: 'https://sns-avatar-qc.xhscdn.com/avatar/ayou?imageView2/2/w/540',
+      desc: '杭州 | 记录周末',
+      sourceUrl: SOURCE,
+    });
+    expect(profile.notes).toEqual([
+      {
+        id: '6650a1b2000000001e03c4d5',
+        title: '周末去了趟杭州',
+        noteType: 'image',
+        cover: 'https://sns-webpic-qc.xhscdn.com/202405241200/abc/cover1!nc_n_webp_mw_1',
+        likes: 12000,
+        noteUrl: 'https://www.xiaohongshu.com/explore/6650a1b2000000001e03c4d5?xsec_token=ABcdEF123%3D&xsec_source=pc_user',
+      },
+      {
+        id: '6640aaaa000000001e011111',
+        title: '无标题',
+        noteType: 'video',
+        cover: 'https://sns-webpic-qc.xhscdn.com/dft2',
+        likes: 88,
+        noteUrl: 'https://www.xiaohongshu.com/explore/6640aaaa000000001e011111?xsec_token=XyZ&xsec_source=pc_user',
+      },
+    ]);
+  });
+
+  it('says when the author has more notes than the page holds', () => {
+    expect(extractProfileFromHtml(html, SOURCE).hasMore).toBe(true);
+
+    const complete = html.replace('"hasMore":true', '"hasMore":false');
+    expect(extractProfileFromHtml(complete, SOURCE).hasMore).toBe(false);
+  });
+
+  it('reports a page without profile data', () => {
+    const page = '<script>window.__INITIAL_STATE__={"global":{},"user":{"loggedIn":false}}</script>';
+    expect(() => extractProfileFromHtml(page, SOURCE)).toThrow(expect.objectContaining({ code: 'PROFILE_NOT_FOUND' }));
+  });
+});
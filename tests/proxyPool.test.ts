@@ -0,0 +1,194 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createProxyPool, buildProxyUrl, parseCustomProxies, ProxyDefinition } from '../services/proxyPool';
+import { startMockServer, MockServer } from './helpers/mockServer';
+
+// Each path of the mock server behaves like one kind of proxy
+let server: MockServer;
+
+beforeAll(async () => {
+  server = await startMockServer(async (req, res, url) => {
+    const target = url.searchParams.get('u') || '';
+    switch (url.pathname) {
+      case '/ok':
+        res.end(`ok:${target}`);
+        break;
+      case '/down':
+        res.statusCode = 502;
+        res.end('bad gateway');
+        break;
+      case '/spa':
+        // 200 without the marker header, like a dev server's index.html fallback
+        res.end('<!doctype html><div id="root"></div>');
+        break;
+      case '/marked':
+        res.setHeader('x-redsaver-proxy', '1');
+        res.end(`marked:${target}`);
+        break;
+      case '/headers':
+        res.end(JSON.stringify(req.headers));
+        break;
+      case '/slow-body':
+        // Headers right away, body after a while
+        res.writeHead(200);
+        res.write('part');
+        await new Promise(r => setTimeout(r, 400));
+        res.end('-rest');
+        break;
+      default:
+        res.statusCode = 404;
+        res.end();
+    }
+  });
+});
+
+afterAll(() => server.close());
+
+beforeEach(() => {
+  // Every rejected candidate is logged; keep the test output readable
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+const proxy = (id: string, path: string, extra: Partial<ProxyDefinition> = {}): ProxyDefinition => ({
+  id,
+  label: id,
+  template: `${server.baseUrl}${path}?u={url}`,
+  kinds: ['html', 'image', 'video'],
+  ...extra,
+});
+
+const text = (response: Response) => response.text();
+
+const healthOf = (pool: ReturnType<typeof createProxyPool>, id: string) =>
+  pool.getSnapshot().find(p => p.id === id)!.health;
+
+describe('fetchThrough', () => {
+  it('falls through failing proxies and records both outcomes', async () => {
+    const pool = createProxyPool([proxy('down', '/down'), proxy('ok', '/ok')]);
+    await expect(pool.fetchThrough('https://a.test/x?y=1', 'html', text)).resolves.toBe('ok:https://a.test/x?y=1');
+    expect(healthOf(pool, 'down')).toMatchObject({ failures: 1, consecutiveFailures: 1 });
+    expect(healthOf(pool, 'ok')).toMatchObject({ successes: 1, failures: 0 });
+  });
+
+  it('ranks proxies by their record', async () => {
+    const pool = createProxyPool([proxy('down', '/down'), proxy('ok', '/ok')]);
+    await pool.fetchThrough('https://a.test/', 'html', text);
+    expect(pool.getCandidates('html').map(p => p.id)).toEqual(['ok', 'down']);
+  });
+
+  it('keeps preferred proxies first regardless of score', async () => {
+    const pool = createProxyPool([proxy('ok', '/ok'), proxy('self', '/marked', { preferred: true })]);
+    pool.reportFailure('self');
+    expect(pool.getCandidates('image').map(p => p.id)).toEqual(['self', 'ok']);
+  });
+
+  it('rejects an answer without the required header', async () => {
+    const pool = createProxyPool([
+      proxy('self', '/spa', { preferred: true, requireHeader: 'x-redsaver-proxy' }),
+      proxy('ok', '/ok'),
+    ]);
+    await expect(pool.fetchThrough('https://a.test/', 'html', text)).resolves.toBe('ok:https://a.test/');
+    expect(healthOf(pool, 'self').failures).toBe(1);
+
+    const deployed = createProxyPool([proxy('self', '/marked', { preferred: true, requireHeader: 'x-redsaver-proxy' })]);
+    await expect(deployed.fetchThrough('https://a.test/', 'html', text)).resolves.toBe('marked:https://a.test/');
+  });
+
+  it('moves on when consume rejects the response', async () => {
+    const pool = createProxyPool([proxy('first', '/ok'), proxy('second', '/marked')]);
+    const consume = async (response: Response, answered: ProxyDefinition) => {
+      if (answered.id === 'first') throw new Error('error page');
+      return response.text();
+    };
+    await expect(pool.fetchThrough('https://a.test/', 'image', consume)).resolves.toBe('marked:https://a.test/');
+    expect(healthOf(pool, 'first').failures).toBe(1);
+  });
+
+  it('throws the last error when every proxy fails', async () => {
+    const pool = createProxyPool([proxy('a', '/down'), proxy('b', '/down')]);
+    await expect(pool.fetchThrough('https://a.test/', 'html', text)).rejects.toThrow('Status 502');
+  });
+
+  it('only uses proxies for the requested kind', async () => {
+    const pool = createProxyPool([proxy('image-only', '/ok', { kinds: ['image'] })]);
+    await expect(pool.fetchThrough('https://a.test/', 'html', text)).rejects.toThrow('No proxy available for html');
+  });
+
+  it('sends the proxy headers, letting the caller override them', async () => {
+    const pool = createProxyPool([proxy('direct', '/headers', { headers: { referer: 'https://www.xiaohongshu.com/', 'x-a': '1' } })]);
+    const headers = JSON.parse(await pool.fetchThrough('https://a.test/', 'html', text, { headers: { 'x-a': '2' } }));
+    expect(headers).toMatchObject({ referer: 'https://www.xiaohongshu.com/', 'x-a': '2' });
+  });
+
+  it('stops at a cancelled request without blaming the remaining proxies', async () => {
+    const pool = createProxyPool([proxy('a', '/slow-body'), proxy('b', '/ok')]);
+    const okRequests = server.requests.filter(r => r.path.startsWith('/ok')).length;
+    const controller = new AbortController();
+    const consume = async (response: Response) => {
+      controller.abort();
+      return response.text();
+    };
+    await expect(pool.fetchThrough('https://a.test/', 'html', consume, { signal: controller.signal })).rejects.toThrow();
+    expect(server.requests.filter(r => r.path.startsWith('/ok'))).toHaveLength(okRequests);
+    expect(healthOf(pool, 'b')).toMatchObject({ successes: 0, failures: 0 });
+  });
+
+  it('measures latency up to the headers, not the whole body', async () => {
+    const pool = createProxyPool([proxy('slow', '/slow-body')]);
+    await expect(pool.fetchThrough('https://a.test/', 'image', text)).resolves.toBe('part-rest');
+    const { successes, avgLatency } = healthOf(pool, 'slow');
+    expect(successes).toBe(1);
+    expect(avgLatency).toBeLessThan(300);
+  });
+});
+
+describe('cooldown', () => {
+  it('skips a proxy after repeated failures until the cooldown ends', async () => {
+    let clock = 1_000_000;
+    const pool = createProxyPool([proxy('down', '/down'), proxy('ok', '/ok')], {
+      failureThreshold: 2,
+      cooldownMs: 60_000,
+      now: () => clock,
+    });
+    pool.reportFailure('down');
+    expect(pool.getCandidates('html').map(p => p.id)).toContain('down');
+    pool.reportFailure('down');
+    expect(pool.getCandidates('html').map(p => p.id)).toEqual(['ok']);
+
+    clock += 60_000;
+    expect(pool.getCandidates('html').map(p => p.id)).toContain('down');
+  });
+
+  it('tries cooling proxies anyway when nothing else is left', () => {
+    const pool = createProxyPool([proxy('down', '/down')], { failureThreshold: 1 });
+    pool.reportFailure('down');
+    expect(pool.getCandidates('html').map(p => p.id)).toEqual(['down']);
+  });
+
+  it('clears the cooldown on the next success', () => {
+    const pool = createProxyPool([proxy('flaky', '/ok')], { failureThreshold: 1 });
+    pool.reportFailure('flaky');
+    pool.reportSuccess('flaky', 120);
+    expect(healthOf(pool, 'flaky')).toMatchObject({ consecutiveFailures: 0, cooldownUntil: 0, avgLatency: 120 });
+  });
+});
+
+describe('custom proxies', () => {
+  it('parses one template per line and drops invalid ones', () => {
+    const proxies = parseCustomProxies('https://p.example/?u={url}\n  \nnot a url\nhttps://q.example/fetch/{rawUrl}\nhttps://no-token.example/');
+    expect(proxies.map(p => [p.id, p.label])).toEqual([
+      ['custom:https://p.example/?u={url}', 'p.example'],
+      ['custom:https://q.example/fetch/{rawUrl}', 'q.example'],
+    ]);
+  });
+
+  it('puts custom proxies ahead of built-ins on equal scores', () => {
+    const pool = createProxyPool([proxy('builtin', '/ok')]);
+    pool.setCustomProxies(parseCustomProxies(`${server.baseUrl}/marked?u={url}`));
+    expect(pool.getCandidates('image').map(p => p.id)).toEqual([`custom:${server.baseUrl}/marked?u={url}`, 'builtin']);
+  });
+
+  it('fills in every template token', () => {
+    expect(buildProxyUrl('https://p.example/?a={url}&b={rawUrl}&t={ts}', 'https://x.test/?q=1&r=2', 42))
+      .toBe('https://p.example/?a=https%3A%2F%2Fx.test%2F%3Fq%3D1%26r%3D2&b=https://x.test/?q=1&r=2&t=42');
+  });
+});
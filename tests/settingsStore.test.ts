@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AppSettings, DEFAULT_SETTINGS, loadSettings, persistSettings, exportSettings, parseSettingsFile } from '../services/settingsStore';
+import { encryptSecret, decryptSecret, isEncryptedSecret } from '../services/secretBox';
+
+const CUSTOM: AppSettings = {
+  ...DEFAULT_SETTINGS,
+  naming: { provider: 'openai', model: 'llava:13b', baseUrl: 'http://localhost:11434/v1', language: 'zh', promptTemplate: 'Name {count}' },
+  filenameTemplate: '{author}_{index}.{ext}',
+  downloadConcurrency: 4,
+  downloadMode: 'zip',
+  imageExport: { format: 'webp', quality: 0.8, maxLongEdge: 2048, keepExif: true },
+};
+
+const fileText = (settings: unknown) => JSON.stringify({ format: 'redsaver-settings', version: 1, settings });
+
+describe('settings files', () => {
+  it('round-trips exported settings', async () => {
+    expect(parseSettingsFile(await exportSettings(CUSTOM).text())).toEqual(CUSTOM);
+  });
+
+  it('rejects files that are not RedSaver settings', () => {
+    expect(() => parseSettingsFile('{oops')).toThrow('设置文件不是有效的 JSON');
+    expect(() => parseSettingsFile(JSON.stringify({ settings: {} }))).toThrow('不是 RedSaver 导出的设置文件');
+  });
+
+  it('replaces invalid fields with defaults and drops unknown ones', () => {
+    const settings = parseSettingsFile(fileText({
+      naming: { provider: 'claude', model: 42, language: 'fr' },
+      encryptedApiKey: { algorithm: 'AES-GCM', iterations: 1 },
+      downloadConcurrency: 10,
+      downloadMode: 'folder',
+      conflictPolicy: 'overwrite',
+      imageExport: { format: 'bmp', quality: 0.2, maxLongEdge: -1, keepExif: 'yes' },
+      apiKey: 'sk-plain',
+    }));
+    expect(settings).toEqual({ ...DEFAULT_SETTINGS, downloadMode: 'folder' });
+    expect(settings).not.toHaveProperty('apiKey');
+  });
+});
+
+describe('stored settings', () => {
+  let storage: Map<string, string>;
+
+  beforeEach(() => {
+    storage = new Map();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => { storage.set(key, value); },
+    });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('loads what was persisted', () => {
+    expect(loadSettings()).toEqual(DEFAULT_SETTINGS);
+    persistSettings(CUSTOM);
+    expect(loadSettings()).toEqual(CUSTOM);
+  });
+
+  it('falls back to defaults on corrupt data', () => {
+    storage.set('redsaver:settings', '{not json');
+    expect(loadSettings()).toEqual(DEFAULT_SETTINGS);
+    expect(console.warn).toHaveBeenCalled();
+  });
+});
+
+describe('secretBox', () => {
+  it('decrypts with the right passphrase only', async () => {
+    const box = await encryptSecret('sk-test-123', 'correct horse');
+    expect(isEncryptedSecret(box)).toBe(true);
+    expect(JSON.stringify(box)).not.toContain('sk-test-123');
+    expect(await decryptSecret(box, 'correct horse')).toBe('sk-test-123');
+    await expect(decryptSecret(box, 'wrong horse')).rejects.toThrow('口令错误');
+  }, 20000);
+
+  it('uses a fresh salt and IV for every encryption', async () => {
+    const [a, b] = [await encryptSecret('same', 'pass'), await encryptSecret('same', 'pass')];
+    expect(a.salt).not.toBe(b.salt);
+    expect(a.iv).not.toBe(b.iv);
+    expect(a.ciphertext).not.toBe(b.ciphertext);
+  }, 20000);
+});
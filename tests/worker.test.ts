@@ -0,0 +1,86 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import worker from '../worker/index';
+
+// Upstream answers keyed by URL; anything else is a 404
+const stubUpstream = (routes: Record<string, () => Response>) => {
+  const fetchMock = vi.fn(async (input: string, _init?: RequestInit) => (routes[input] || (() => new Response('', { status: 404 })))());
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+const redirect = (location: string, status = 302) => () => new Response(null, { status, headers: { location } });
+
+const env = { ASSETS: { fetch: async () => new Response('asset') } };
+
+const callWorker = (path: string, target: string) =>
+  worker.fetch(new Request(`https://redsaver.example${path}?url=${encodeURIComponent(target)}`), env);
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('worker proxy', () => {
+  it('follows allowed redirects hop by hop and reports the final URL', async () => {
+    const fetchMock = stubUpstream({
+      'https://xhslink.com/a/AbCd': redirect('https://www.xiaohongshu.com/discovery/item/abc'),
+      'https://www.xiaohongshu.com/discovery/item/abc': redirect('/explore/abc', 301),
+      'https://www.xiaohongshu.com/explore/abc': () => new Response('<html>note</html>', { headers: { 'content-type': 'text/html' } }),
+    });
+
+    const response = await callWorker('/api/html', 'https://xhslink.com/a/AbCd');
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('<html>note</html>');
+    expect(response.headers.get('x-final-url')).toBe('https://www.xiaohongshu.com/explore/abc');
+    expect(response.headers.get('x-redsaver-proxy')).toBe('1');
+    expect(fetchMock.mock.calls.every(([, init]) => init?.redirect === 'manual')).toBe(true);
+  });
+
+  it('never requests a disallowed hop, even one in the middle of the chain', async () => {
+    const fetchMock = stubUpstream({
+      'https://xhslink.com/a/evil': redirect('https://evil.example/steal'),
+      'https://evil.example/steal': redirect('https://www.xiaohongshu.com/explore/abc'),
+    });
+
+    const response = await callWorker('/api/html', 'https://xhslink.com/a/evil');
+    expect(response.status).toBe(403);
+    expect(await response.json()).toEqual({ error: 'Redirected to disallowed host: evil.example' });
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual(['https://xhslink.com/a/evil']);
+  });
+
+  it('checks media redirects too', async () => {
+    stubUpstream({
+      'https://sns-img-qc.xhscdn.com/abc': redirect('http://169.254.169.254/latest/meta-data'),
+    });
+    const response = await callWorker('/api/image', 'https://sns-img-qc.xhscdn.com/abc');
+    expect(response.status).toBe(403);
+  });
+
+  it('streams allowed media with its headers', async () => {
+    stubUpstream({
+      'https://sns-img-qc.xhscdn.com/abc': redirect('https://sns-webpic-qc.xhscdn.com/abc'),
+      'https://sns-webpic-qc.xhscdn.com/abc': () => new Response('jpeg-bytes', { headers: { 'content-type': 'image/jpeg', 'set-cookie': 'a=1' } }),
+    });
+    const response = await callWorker('/api/image', 'https://sns-img-qc.xhscdn.com/abc');
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('image/jpeg');
+    expect(response.headers.get('set-cookie')).toBeNull();
+    expect(await response.text()).toBe('jpeg-bytes');
+  });
+
+  it('gives up on redirect loops', async () => {
+    stubUpstream({
+      'https://www.xiaohongshu.com/a': redirect('https://www.xiaohongshu.com/b'),
+      'https://www.xiaohongshu.com/b': redirect('https://www.xiaohongshu.com/a'),
+    });
+    const response = await callWorker('/api/html', 'https://www.xiaohongshu.com/a');
+    expect(response.status).toBe(502);
+    expect((await response.json()).error).toMatch(/Too many redirects/);
+  });
+
+  it('rejects targets outside the allowed hosts', async () => {
+    const fetchMock = stubUpstream({});
+    const response = await callWorker('/api/html', 'https://evilxiaohongshu.com/explore/abc');
+    expect(response.status).toBe(403);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
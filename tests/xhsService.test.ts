@@ -0,0 +1,83 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createProxyPool, ProxyDefinition } from '../services/proxyPool';
+import { createXhsClient } from '../services/xhsService';
+import { startMockServer, MockServer } from './helpers/mockServer';
+
+const IMAGE_BYTES = Buffer.alloc(8 * 1024, 0xab);
+
+let server: MockServer;
+
+beforeAll(async () => {
+  server = await startMockServer((_req, res, url) => {
+    switch (url.pathname) {
+      case '/image':
+        res.setHeader('content-type', 'image/jpeg');
+        res.setHeader('content-length', IMAGE_BYTES.length);
+        res.end(IMAGE_BYTES);
+        break;
+      case '/error-page':
+        res.setHeader('content-type', 'text/html');
+        res.end('<html>blocked</html>'.padEnd(6000));
+        break;
+      case '/placeholder':
+        res.setHeader('content-type', 'image/png');
+        res.end(Buffer.alloc(200));
+        break;
+      default:
+        res.statusCode = 404;
+        res.end();
+    }
+  });
+});
+
+afterAll(() => server.close());
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+const proxy = (id: string, path: string, kinds: ProxyDefinition['kinds'] = ['image']): ProxyDefinition => ({
+  id,
+  label: id,
+  template: `${server.baseUrl}${path}?u={url}`,
+  kinds,
+});
+
+describe('fetchMedia', () => {
+  it('rejects error pages and placeholders, then takes the next proxy', async () => {
+    const pool = createProxyPool([proxy('html', '/error-page'), proxy('tiny', '/placeholder'), proxy('good', '/image')]);
+    const { blob, proxy: servedBy } = await createXhsClient(pool).fetchMedia('https://sns-img-qc.xhscdn.com/a');
+    expect(servedBy).toBe('good');
+    expect(blob.size).toBe(IMAGE_BYTES.length);
+    expect(blob.type).toBe('image/jpeg');
+  });
+
+  it('sends videos only to proxies that carry them', async () => {
+    const pool = createProxyPool([proxy('images', '/image'), proxy('any', '/image', ['image', 'video'])]);
+    const { proxy: servedBy } = await createXhsClient(pool).fetchMedia('https://sns-video-bd.xhscdn.com/v', { kind: 'video' });
+    expect(servedBy).toBe('any');
+    expect(pool.getSnapshot().find(p => p.id === 'images')!.health).toMatchObject({ successes: 0, failures: 0 });
+  });
+
+  it('reports byte progress', async () => {
+    const pool = createProxyPool([proxy('good', '/image')]);
+    const progress: [number, number | null][] = [];
+    await createXhsClient(pool).fetchBlobWithRetry('https://sns-img-qc.xhscdn.com/a', {
+      onProgress: (loaded, total) => progress.push([loaded, total]),
+    });
+    expect(progress[0]).toEqual([0, IMAGE_BYTES.length]);
+    expect(progress[progress.length - 1]).toEqual([IMAGE_BYTES.length, IMAGE_BYTES.length]);
+  });
+
+  it('keeps a paused download out of the proxy latency', async () => {
+    const pool = createProxyPool([proxy('good', '/image')]);
+    let checks = 0;
+    // Paused for a while after the first chunk, like a user hitting pause mid-download
+    const waitIfPaused = () => (checks++ === 1 ? new Promise<void>(r => setTimeout(r, 400)) : Promise.resolve());
+
+    const blob = await createXhsClient(pool).fetchBlobWithRetry('https://sns-img-qc.xhscdn.com/a', { waitIfPaused });
+    expect(blob.size).toBe(IMAGE_BYTES.length);
+    expect(checks).toBeGreaterThan(1);
+    expect(pool.getSnapshot()[0].health.avgLatency).toBeLessThan(300);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, expect, it, vi } from 'vitest';
+import { findXhsUrls, resolveXhsUrl, canonicalizeXhsUrl, findCanonicalUrlInHtml } from '../services/xhsUrlResolver';
+
+// Share texts as the app and the website produce them
+const APP_SHARE = '48 阿柚发布了一篇小红书笔记，快来看吧！ 😆 AbCdEfGhIjK 😆 http://xhslink.com/a/AbCdEfGhIjK，复制本条信息，打开【小红书】App查看精彩内容！';
+const APP_SHARE_NEW = 'http://xhslink.com/o/9XyZabc 复制后打开【小红书】查看笔记！';
+const WEB_SHARE = '【周末去了趟杭州 - 阿柚 | 小红书 - 你的生活指南】 😆 2bW3xYz 😆 https://www.xiaohongshu.com/discovery/item/6650a1b2000000001e03c4d5?source=webshare&xhsshare=pc_web&xsec_token=ABcdEF123=&xsec_source=pc_share';
+const PROFILE_SHARE = '快来看看阿柚的小红书主页吧！https://www.xiaohongshu.com/user/profile/5f1e2d3c000000000101abcd?xhsshare=CopyLink&appuid=5f1e&apptime=1716555555&share_id=abc&xsec_token=QWE&xsec_source=app_share';
+
+describe('findXhsUrls', () => {
+  it('pulls the link out of app share text', () => {
+    expect(findXhsUrls(APP_SHARE)).toEqual(['http://xhslink.com/a/AbCdEfGhIjK']);
+    expect(findXhsUrls(APP_SHARE_NEW)).toEqual(['http://xhslink.com/o/9XyZabc']);
+  });
+
+  it('keeps query strings but not trailing punctuation', () => {
+    expect(findXhsUrls(WEB_SHARE)).toEqual([
+      'https://www.xiaohongshu.com/discovery/item/6650a1b2000000001e03c4d5?source=webshare&xhsshare=pc_web&xsec_token=ABcdEF123=&xsec_source=pc_share',
+    ]);
+    expect(findXhsUrls('看这个 https://www.xiaohongshu.com/explore/6650a1b2000000001e03c4d5.')).toEqual([
+      'https://www.xiaohongshu.com/explore/6650a1b2000000001e03c4d5',
+    ]);
+  });
+
+  it('adds a scheme where the text dropped it', () => {
+    expect(findXhsUrls('打开xhslink.com/a/AbCd看看')).toEqual(['https://xhslink.com/a/AbCd']);
+  });
+
+  it('finds every link in a list, once each', () => {
+    const text = `${APP_SHARE}\n${WEB_SHARE}\nhttp://xhslink.com/a/AbCdEfGhIjK`;
+    expect(findXhsUrls(text)).toHaveLength(2);
+  });
+
+  it.each([
+    'https://evilxiaohongshu.com/explore/6650a1b2000000001e03c4d5',
+    'https://my-xhslink.com/a/AbCd',
+    'https://xiaohongshu.com.evil.io/explore/6650a1b2000000001e03c4d5',
+    'https://xhslink.community/a/AbCd',
+    'notxiaohongshu.com',
+  ])('ignores look-alike hosts: %s', (text) => {
+    expect(findXhsUrls(text)).toEqual([]);
+  });
+});
+
+describe('canonicalizeXhsUrl', () => {
+  it.each([
+    ['https://www.xiaohongshu.com/explore/6650A1B2000000001E03C4D5', 'https://www.xiaohongshu.com/explore/6650a1b2000000001e03c4d5'],
+    ['https://www.xiaohongshu.com/discovery/item/6650a1b2000000001e03c4d5?xsec_token=AB%3D', 'https://www.xiaohongshu.com/explore/6650a1b2000000001e03c4d5?xsec_token=AB%3D'],
+    ['https://xiaohongshu.com/item/6650a1b2000000001e03c4d5/', 'https://www.xiaohongshu.com/explore/6650a1b2000000001e03c4d5'],
+    ['https://www.xiaohongshu.com/user/profile/5f1e2d3c000000000101abcd/6650a1b2000000001e03c4d5', 'https://www.xiaohongshu.com/explore/6650a1b2000000001e03c4d5'],
+  ])('maps %s to its explore URL', (input, url) => {
+    expect(canonicalizeXhsUrl(input)).toMatchObject({ kind: 'note', noteId: '6650a1b2000000001e03c4d5', url });
+  });
+
+  it('recognises profiles', () => {
+    expect(canonicalizeXhsUrl(findXhsUrls(PROFILE_SHARE)[0])).toEqual({
+      kind: 'profile',
+      userId: '5f1e2d3c000000000101abcd',
+      xsecToken: 'QWE',
+      url: 'https://www.xiaohongshu.com/user/profile/5f1e2d3c000000000101abcd?xsec_token=QWE',
+    });
+  });
+
+  it('rejects other pages and short links', () => {
+    expect(canonicalizeXhsUrl('https://www.xiaohongshu.com/explore')).toBeNull();
+    expect(canonicalizeXhsUrl('https://xhslink.com/a/AbCd')).toBeNull();
+    expect(canonicalizeXhsUrl('not a url')).toBeNull();
+  });
+});
+
+describe('resolveXhsUrl', () => {
+  it('expands short links from share text', async () => {
+    const expand = vi.fn(async () => 'https://www.xiaohongshu.com/discovery/item/6650a1b2000000001e03c4d5?xsec_token=ABcdEF123%3D&xsec_source=app_share');
+    await expect(resolveXhsUrl(APP_SHARE, expand)).resolves.toEqual({
+      kind: 'note',
+      noteId: '6650a1b2000000001e03c4d5',
+      xsecToken: 'ABcdEF123=',
+      url: 'https://www.xiaohongshu.com/explore/6650a1b2000000001e03c4d5?xsec_token=ABcdEF123%3D',
+    });
+    expect(expand).toHaveBeenCalledWith('http://xhslink.com/a/AbCdEfGhIjK');
+  });
+
+  it('does not expand full links', async () => {
+    const expand = vi.fn();
+    await expect(resolveXhsUrl(WEB_SHARE, expand)).resolves.toMatchObject({ noteId: '6650a1b2000000001e03c4d5', xsecToken: 'ABcdEF123=' });
+    expect(expand).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['no link at all', '今天天气不错', undefined, 'INVALID_LINK'],
+    ['a short link without an expander', APP_SHARE, undefined, 'SHORT_LINK_UNRESOLVED'],
+    ['a short link that fails to expand', APP_SHARE, async () => { throw new Error('timeout'); }, 'SHORT_LINK_UNRESOLVED'],
+    ['a short link to a login page', APP_SHARE, async () => 'https://www.xiaohongshu.com/login', 'SHORT_LINK_UNRESOLVED'],
+    ['an unsupported page', 'https://www.xiaohongshu.com/search_result?keyword=x', undefined, 'INVALID_LINK'],
+  ])('reports %s', async (_label, text, expand, code) => {
+    await expect(resolveXhsUrl(text as string, expand as any)).rejects.toMatchObject({ code });
+  });
+});
+
+describe('findCanonicalUrlInHtml', () => {
+  it('reads canonical links, og:url and bare redirect bodies', () => {
+    expect(findCanonicalUrlInHtml('<link rel="canonical" href="https://www.xiaohongshu.com/explore/abc?a=1&amp;b=2">'))
+      .toBe('https://www.xiaohongshu.com/explore/abc?a=1&b=2');
+    expect(findCanonicalUrlInHtml('<meta content="https://www.xiaohongshu.com/explore/abc" name="og:url">'))
+      .toBe('https://www.xiaohongshu.com/explore/abc');
+    expect(findCanonicalUrlInHtml('<a href="https://www.xiaohongshu.com/discovery/item/abc">Found</a>'))
+      .toBe('https://www.xiaohongshu.com/discovery/item/abc');
+  });
+
+  it('ignores links to look-alike hosts', () => {
+    expect(findCanonicalUrlInHtml('<a href="https://evil.io/?next=xiaohongshu.com">Found</a>')).toBeNull();
+  });
+});
@@ -1,19 +1,82 @@
+// 'live' is a Live Photo: a still image paired with a short motion clip
+export type MediaKind = 'image' | 'video' | 'live';
+
 export interface XhsImage {
   id: string;
-  url: string; // The original URL
-  previewUrl: string; // Smaller thumbnail
+  kind: MediaKind;
+  url: string; // The original URL (the MP4 stream for videos)
+  previewUrl: string; // Smaller thumbnail (the cover for videos)
+  videoUrl?: string; // Motion clip of a Live Photo
   width: number;
   height: number;
-  aiName?: string; // Generated by Gemini
+  sizeDeclared?: boolean; // False when width/height are the 1080x1440 fallback, not from the note
+  aiName?: string; // Generated by the naming provider
+  namingError?: string; // Set when the last naming attempt failed for this image
+  analysis?: ImageAnalysis; // Produced alongside aiName by vision providers
+  downloadInfo?: DownloadInfo; // Set by the last successful download
+}
+
+// What a download actually produced, to verify "original quality"
+export interface DownloadInfo {
+  width: number | null; // Measured from the fetched file; null when it can't be decoded (videos)
+  height: number | null;
+  bytes: number;
+  format: string; // MIME type of the fetched file
+  source: 'original' | 'preview'; // HQ URL, or the preview fallback after HQ failed
+  proxy: string; // Proxy that served the bytes
+  belowDeclared: boolean; // Smaller than the resolution the note declares
+  downloadedAt: number;
+}
+
+export interface ImageAnalysis {
+  caption: string; // One-sentence description, usable as alt text
+  tags: string[]; // Content tags
+  ocrText: string; // Text visible on the image
+  category: string; // Suggested category, normally one of the categories offered in the prompt
 }
 
 export interface XhsPost {
   id: string;
+  noteType: 'image' | 'video';
   title: string;
   author: string;
   authorAvatar: string;
   images: XhsImage[];
   timestamp: number;
+  sourceUrl: string; // The link the post was parsed from
+  noteUrl: string; // Canonical note link (with xsec_token when known)
+  desc: string; // Full body text, hashtag markup removed
+  tags: string[]; // Hashtags without '#'
+  stats: XhsPostStats;
+  ipLocation?: string;
+}
+
+// Interaction counts; null when the page did not expose them
+export interface XhsPostStats {
+  likes: number | null;
+  collects: number | null;
+  comments: number | null;
+  shares: number | null;
+}
+
+export type DownloadMode = 'files' | 'zip' | 'folder'; // 'folder' writes into a picked directory (File System Access API)
+
+export type ImageDownloadStatus = 'queued' | 'downloading' | 'done' | 'failed' | 'cancelled';
+
+export interface ImageDownloadState {
+  status: ImageDownloadStatus;
+  loaded: number; // Bytes received so far
+  total: number | null; // From Content-Length; null when the proxy does not send it
+  error?: string;
+}
+
+export type QueueStatus = 'queued' | 'parsing' | 'ready' | 'failed';
+
+export interface QueueItem {
+  url: string; // Also serves as the queue key
+  status: QueueStatus;
+  post?: XhsPost; // Set once status is 'ready'
+  error?: string; // Set once status is 'failed'
 }
 
 export interface ProcessingState {
@@ -21,4 +84,50 @@ export interface ProcessingState {
   message?: string;
   progress?: number;
   total?: number;
-}
\ No newline at end of file
+  paused?: boolean; // Downloads only
+}
+export interface HistoryEntry {
+  id: string; // Note id
+  title: string;
+  author: string;
+  authorAvatar: string;
+  sourceUrl: string;
+  timestamp: number; // When the note was published
+  savedAt: number; // First time the note was parsed
+  updatedAt: number; // Last time the note was parsed or edited
+  post: XhsPost; // Snapshot used to re-open the note without fetching it again
+  downloads: Record<string, number>; // Image id -> last download time
+}
+
+// 64-bit perceptual hashes as hex, for near-duplicate detection
+export interface PerceptualHash {
+  aHash: string;
+  dHash: string;
+}
+
+export interface DownloadRecord {
+  imageId: string; // The image fileId
+  postId: string;
+  downloadedAt: number;
+  phash?: PerceptualHash; // Missing for videos and records saved before hashing existed
+}
+
+// One entry of an author's note list (profile page), before the note itself is parsed
+export interface XhsProfileNote {
+  id: string;
+  title: string;
+  noteType: 'image' | 'video';
+  cover: string;
+  likes: number | null;
+  noteUrl: string; // Note link carrying its xsec_token, ready for parseXhsLink
+}
+
+export interface XhsProfile {
+  userId: string;
+  nickname: string;
+  avatar: string;
+  desc: string;
+  sourceUrl: string;
+  notes: XhsProfileNote[];
+  hasMore: boolean; // The author has notes beyond the first page, which can't be fetched here
+}
@@ -0,0 +1,17 @@
+import { defineConfig } from 'vite';
+
+// Bundles the Node CLI (cli/index.ts) into dist-cli/redsaver.js. Dependencies
+// stay external and are loaded from node_modules at run time.
+export default defineConfig({
+  build: {
+    ssr: 'cli/index.ts',
+    outDir: 'dist-cli',
+    target: 'node18',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'redsaver.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+});
@@ -0,0 +1,154 @@
+// Cloudflare Worker entry: serves the built app from ./dist and exposes a
+// same-origin proxy for Xiaohongshu pages and media, so the app does not
+// depend on rate-limited public CORS proxies.
+//
+//   GET /api/html?url=<note or short link>   -> page HTML (after redirects, each hop checked)
+//   GET /api/image?url=<xhscdn media url>    -> original bytes, streamed through unchanged
+
+interface Env {
+  ASSETS: { fetch: (request: Request) => Promise<Response> };
+}
+
+// Header the app checks to tell this proxy apart from an SPA fallback page
+const PROXY_MARKER_HEADER = 'x-redsaver-proxy';
+
+const ALLOWED_HOST_SUFFIXES = ['xiaohongshu.com', 'xhslink.com', 'xhscdn.com', 'xhscdn.net'];
+
+const BROWSER_UA =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0 Safari/537.36';
+
+// Response headers worth passing through from the upstream media response
+const FORWARDED_MEDIA_HEADERS = ['content-type', 'content-length', 'content-range', 'accept-ranges', 'last-modified', 'etag'];
+
+// Short links go through a couple of hops; anything longer is treated as a loop
+const MAX_REDIRECTS = 5;
+
+const isAllowedHost = (hostname: string): boolean =>
+  ALLOWED_HOST_SUFFIXES.some(suffix => hostname === suffix || hostname.endsWith(`.${suffix}`));
+
+const errorResponse = (status: number, message: string): Response =>
+  new Response(JSON.stringify({ error: message }), {
+    status,
+    headers: { 'content-type': 'application/json; charset=utf-8', [PROXY_MARKER_HEADER]: '1' },
+  });
+
+// Validates the ?url= parameter; returns a Response on rejection
+const readTarget = (request: Request): URL | Response => {
+  const raw = new URL(request.url).searchParams.get('url');
+  if (!raw) return errorResponse(400, 'Missing url parameter');
+
+  let target: URL;
+  try {
+    target = new URL(raw);
+  } catch {
+    return errorResponse(400, 'Invalid url parameter');
+  }
+
+  if (target.protocol !== 'https:' && target.protocol !== 'http:') {
+    return errorResponse(400, 'Unsupported protocol');
+  }
+  if (!isAllowedHost(target.hostname)) {
+    return errorResponse(403, `Host not allowed: ${target.hostname}`);
+  }
+  return target;
+};
+
+// Follows redirects by hand so every hop is checked before it is requested.
+// With redirect: 'follow', a short link could bounce the Worker through any
+// host and only the last one would be seen. Returns a Response on rejection.
+const fetchAllowed = async (target: URL, headers: Record<string, string>): Promise<{ upstream: Response; finalUrl: URL } | Response> => {
+  let url = target;
+  for (let hops = 0; ; hops++) {
+    const upstream = await fetch(url.toString(), { headers, redirect: 'manual' });
+    const location = upstream.headers.get('location');
+    if (upstream.status < 300 || upstream.status >= 400 || !location) {
+      return { upstream, finalUrl: url };
+    }
+    await upstream.body?.cancel();
+
+    if (hops >= MAX_REDIRECTS) {
+      return errorResponse(502, `Too many redirects (more than ${MAX_REDIRECTS})`);
+    }
+    let next: URL;
+    try {
+      next = new URL(location, url);
+    } catch {
+      return errorResponse(502, `Invalid redirect location: ${location}`);
+    }
+    // Redirects (short links, login walls) may point at a host we do not proxy
+    if ((next.protocol !== 'https:' && next.protocol !== 'http:') || !isAllowedHost(next.hostname)) {
+      return errorResponse(403, `Redirected to disallowed host: ${next.hostname || next.protocol}`);
+    }
+    url = next;
+  }
+};
+
+const handleHtml = async (target: URL): Promise<Response> => {
+  const fetched = await fetchAllowed(target, {
+    'user-agent': BROWSER_UA,
+    'accept': 'text/html,application/xhtml+xml',
+    'accept-language': 'zh-CN,zh;q=0.9',
+    'referer': 'https://www.xiaohongshu.com/',
+  });
+  if (fetched instanceof Response) return fetched;
+  const { upstream, finalUrl } = fetched;
+
+  return new Response(upstream.body, {
+    status: upstream.status,
+    headers: {
+      'content-type': upstream.headers.get('content-type') || 'text/html; charset=utf-8',
+      'cache-control': 'no-store',
+      'x-final-url': finalUrl.toString(),
+      [PROXY_MARKER_HEADER]: '1',
+    },
+  });
+};
+
+const handleMedia = async (target: URL, request: Request): Promise<Response> => {
+  const headers: Record<string, string> = {
+    'user-agent': BROWSER_UA,
+    'referer': 'https://www.xiaohongshu.com/',
+  };
+  // Pass Range through so videos can be seeked without downloading them whole
+  const range = request.headers.get('range');
+  if (range) headers['range'] = range;
+
+  const fetched = await fetchAllowed(target, headers);
+  if (fetched instanceof Response) return fetched;
+  const { upstream } = fetched;
+
+  const responseHeaders = new Headers({
+    'cache-control': 'public, max-age=86400',
+    [PROXY_MARKER_HEADER]: '1',
+  });
+  FORWARDED_MEDIA_HEADERS.forEach(name => {
+    const value = upstream.headers.get(name);
+    if (value) responseHeaders.set(name, value);
+  });
+
+  // Body is streamed as-is: no re-encoding, so the original quality is preserved
+  return new Response(upstream.body, { status: upstream.status, headers: responseHeaders });
+};
+
+export default {
+  async fetch(request: Request, env: Env): Promise<Response> {
+    const { pathname } = new URL(request.url);
+
+    if (pathname === '/api/html' || pathname === '/api/image') {
+      if (request.method !== 'GET' && request.method !== 'HEAD') {
+        return errorResponse(405, 'Method not allowed');
+      }
+
+      const target = readTarget(request);
+      if (target instanceof Response) return target;
+
+      try {
+        return pathname === '/api/html' ? await handleHtml(target) : await handleMedia(target, request);
+      } catch (err: any) {
+        return errorResponse(502, err?.message || 'Upstream fetch failed');
+      }
+    }
+
+    return env.ASSETS.fetch(request);
+  },
+};